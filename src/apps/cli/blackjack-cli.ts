@@ -3,16 +3,43 @@ import readline from "readline";
 import {
   BlackjackState,
   BlackjackConfig,
-  initBlackjack,
-  hit,
-  stand,
-  nextPlayer,
-  handScore,
-  isBusted,
-  allNonDealerDone,
-  dealerAutoPlay,
-  botAutoPlay
+  placeBet,
+  betError,
+  placeSideBet,
+  sideBetError,
+  sideBetLabel,
+  describeSideBetResult,
+  DEFAULT_PERFECT_PAIRS_PAYTABLE,
+  DEFAULT_TWENTY_ONE_PLUS_THREE_PAYTABLE,
+  dealHands,
+  BlackjackHand,
+  describeRules,
+  settleBlackjackRound,
+  describeHandResult,
+  currentHand,
+  dealerHand,
+  isHandDone,
+  handStatusLabel,
+  visibleDealerCards,
+  canTakeInsurance,
+  takeInsurance,
+  declineInsurance,
+  evaluateHand,
+  describeHandValue,
+  BlackjackAction,
+  applyBlackjackAction,
+  nextTurn,
+  step
 } from "../../core/blackjack";
+import {
+  BlackjackSession,
+  createSession,
+  updateTable,
+  recordRound,
+  nextSessionRound,
+  joinSession,
+  leaveSession
+} from "../../core/blackjack-session";
 
 const rl = readline.createInterface({
   input: process.stdin,
@@ -30,171 +57,346 @@ const TABLE_CONFIG: BlackjackConfig = {
   numBots: 2,
   humanNames: ["You"],              // optional
   botNames: ["Hal", "RNGesus"],     // optional
-  dealerName: "Dealer"              // optional
+  botStrategies: ["basic", "hi-lo"], // optional, per bot: "basic", "naive", "hi-lo", "ko" or "omega-ii"
+  dealerName: "Dealer",             // optional
+  penetration: 0.75,                // optional, cut card position
+  startingBankroll: 1000,           // optional
+  minBet: 10,                       // optional
+  maxBet: 500,                      // optional
+  rules: {                          // optional, anything omitted uses the defaults
+    numDecks: 6,                    // 1–8
+    dealerHitsSoft17: false,        // S17
+    blackjackPayout: "3:2",         // "3:2" or "6:5"
+    doubleOn: "any",                // "any", "9-11" or "10-11"
+    doubleAfterSplit: true,
+    lateSurrender: true,
+    twentyOneBeatsEqualScore: false,
+    perfectPairs: DEFAULT_PERFECT_PAIRS_PAYTABLE,             // null to turn off
+    twentyOnePlusThree: DEFAULT_TWENTY_ONE_PLUS_THREE_PAYTABLE // null to turn off
+  }
 };
 
-let state: BlackjackState = initBlackjack(TABLE_CONFIG);
+// The session carries seats, bankrolls, shoe and stats from round to round;
+// `state` is its table for the round being played
+let session: BlackjackSession = createSession(TABLE_CONFIG);
+let state: BlackjackState = session.table;
 
 const renderState = () => {
   console.clear();
-  console.log("=== Blackjack ===\n");
+  console.log("=== Blackjack ===");
+  console.log(
+    `Round ${state.round} · Shoe: ${state.shoe.cards.length} cards left ` +
+    `(${state.shoe.numDecks} decks, cut at ${state.shoe.cutCard}) · Seed ${state.seed}`
+  );
+  console.log(`Rules: ${describeRules(state.rules)}`);
+  if (state.reshuffled) console.log("Fresh shoe shuffled for this round.");
+  console.log("");
 
   state.players.forEach((p, index) => {
-    const handStr = p.hand.map(c => `${c.rank}${c.suit}`).join(" ");
-    const score = handScore(p.hand);
     const isCurrent = index === state.currentPlayerIndex;
 
     let roleLabel: string;
     if (p.isDealer) roleLabel = "Dealer";
-    else if (p.isBot) roleLabel = `Bot ${p.id}`;
+    else if (p.isBot) roleLabel = `Bot ${p.id} (${p.strategy?.name ?? "?"})`;
     else roleLabel = `Player ${p.id}`;
 
-    const flags: string[] = [];
-    if (p.isBlackjack) flags.push("BLACKJACK");
-    else if (p.hasTwentyOne) flags.push("21");
-    if (p.busted) flags.push("BUST");
-    else if (p.standing && !p.hasTwentyOne && !p.isBlackjack) flags.push("STAND");
-
-    const flagsStr = flags.length ? ` [${flags.join(", ")}]` : "";
+    console.log(`${isCurrent ? "➡ " : "  "}${roleLabel}`);
+    if (p.hands.length === 0) {
+      console.log("     (no cards)");
+    }
 
-    console.log(
-      `${isCurrent ? "➡ " : "  "}${roleLabel}: ${handStr || "(no cards)"}`
-    );
-    console.log(`     Score: ${score}${flagsStr}`);
+    p.hands.forEach((h, handIdx) => {
+      // Dealer's hole card stays face down until the dealer's turn
+      const shown = p.isDealer ? visibleDealerCards(state) : h.cards;
+      const hidden = h.cards.length - shown.length;
+      const handStr = [
+        ...shown.map(c => `${c.rank}${c.suit}`),
+        ...Array.from({ length: hidden }, () => "??")
+      ].join(" ");
+      const score = describeHandValue(evaluateHand(shown));
+      const marker = isCurrent && handIdx === state.currentHandIndex && p.hands.length > 1
+        ? "> "
+        : "  ";
+
+      // A dealer natural isn't announced before the hole card is turned
+      const flag = hidden ? "" : handStatusLabel(h);
+      const flagsStr = flag ? ` [${flag}]` : "";
+      const betStr = p.isDealer ? "" : ` · Bet ${h.bet}`;
+
+      console.log(`   ${marker}${handStr} · Score: ${score}${flagsStr}${betStr}`);
+    });
+
+    if (!p.isDealer) {
+      const insured = p.insurance > 0 ? ` · Insurance: ${p.insurance}` : "";
+      console.log(`     Bankroll: ${p.bankroll}${insured}`);
+      p.sideBetResults.forEach(r => console.log(`     ${describeSideBetResult(r)}`));
+    }
     console.log("");
   });
 
-  if (state.finished) {
-    console.log("Game over!\n");
+  if (state.phase === "finished") {
+    console.log("Round over!\n");
   }
 };
 
-const computeOutcome = () => {
-  const dealer = state.players[0]!;
-  const dealerScore = isBusted(dealer.hand) ? 0 : handScore(dealer.hand);
+// Score flag next to a settled hand, e.g. " (BLACKJACK)"
+const handLabel = (hand: BlackjackHand): string => {
+  const label = handStatusLabel(hand);
+  return label ? ` (${label})` : "";
+};
 
-  const dealerLabel =
-    dealer.isBlackjack ? " (BLACKJACK)" :
-    dealer.hasTwentyOne ? " (21)" :
-    isBusted(dealer.hand) ? " (BUST)" :
-    "";
+const computeOutcome = () => {
+  const result = settleBlackjackRound(state);
 
   console.log("=== Results ===");
-  console.log(`Dealer: ${dealerScore}${dealerLabel}\n`);
-
-  // Each non-dealer player is evaluated vs dealer
-  state.players.slice(1).forEach(p => {
-    const score = isBusted(p.hand) ? 0 : handScore(p.hand);
+  console.log(`Dealer: ${result.dealerScore}${handLabel(dealerHand(state))}\n`);
 
-    const flag =
-      p.isBlackjack ? " (BLACKJACK)" :
-      p.hasTwentyOne ? " (21)" :
-      isBusted(p.hand) ? " (BUST)" :
-      "";
+  // Each non-dealer hand is evaluated vs dealer
+  state.players.forEach((p, playerIndex) => {
+    if (p.isDealer) return;
 
-    let result: string;
-
-    if (isBusted(p.hand)) {
-      if (isBusted(dealer.hand)) {
-        result = "LOSE (both bust – house wins)";
-      } else {
-        result = "LOSE (bust)";
-      }
-    } else if (isBusted(dealer.hand)) {
-      result = "WIN (dealer bust)";
-    } else if (p.isBlackjack && !dealer.isBlackjack) {
-      result = "WIN (natural blackjack)";
-    } else if (dealer.isBlackjack && !p.isBlackjack) {
-      result = "LOSE (dealer blackjack)";
-    } else if (score > dealerScore) {
-      result = "WIN";
-    } else if (score < dealerScore) {
-      result = "LOSE";
-    } else {
-      // score tie: give slight edge to 21 over non-21
-      if (p.hasTwentyOne && !dealer.hasTwentyOne) {
-        result = "WIN (21 beats equal score)";
-      } else if (dealer.hasTwentyOne && !p.hasTwentyOne) {
-        result = "LOSE (dealer 21 beats equal score)";
-      } else {
-        result = "PUSH";
-      }
+    const who = p.isBot ? `Bot ${p.id}` : `Player ${p.id}`;
+    const seat = result.seats.find(r => r.playerIndex === playerIndex);
+    if (!seat) {
+      console.log(`${who}: sat out · bankroll ${p.bankroll}`);
+      return;
     }
 
-    const who = p.isBot ? `Bot ${p.id}` : `Player ${p.id}`;
-    console.log(`${who}: ${score}${flag} -> ${result}`);
+    seat.hands.forEach((r, idx) => {
+      const label = seat.hands.length > 1 ? `${who} (hand ${idx + 1})` : who;
+      const hand = p.hands[idx]!;
+      console.log(`${label}: ${r.score}${handLabel(hand)} -> ${describeHandResult(r)}`);
+    });
+
+    const net = seat.net > 0 ? `+${seat.net}` : `${seat.net}`;
+    console.log(`   net ${net} · bankroll ${p.bankroll}`);
   });
 
   console.log("");
 };
 
-const main = async () => {
-  while (true) {
-    renderState();
+const printSessionStats = () => {
+  console.log(`=== Session after ${session.roundsRecorded} round(s) ===`);
+  for (const [id, s] of Object.entries(session.stats)) {
+    const net = s.net > 0 ? `+${s.net}` : `${s.net}`;
+    const seated = state.players.some(p => p.id === id) ? "" : " (left)";
+    console.log(
+      `${id}${seated}: ${s.hands} hands · W ${s.wins} / P ${s.pushes} / L ${s.losses}` +
+      ` · BJ ${s.blackjacks} · net ${net}`
+    );
+  }
+  console.log("");
+};
 
-    // If all non-dealers are done, let dealer auto-play and finish
-    if (allNonDealerDone(state) && !state.finished) {
-      console.log("Dealer's turn...");
-      await delay(1000);
-      state = dealerAutoPlay(state);
-      renderState();
-      computeOutcome();
-      break;
+// Between rounds: y deals again, "j <name>" / "b <name>" seat a human / bot,
+// "l <name>" leaves, s shows stats; false = stop playing
+const betweenRounds = async (): Promise<boolean> => {
+  session = recordRound(updateTable(session, () => state));
+
+  // Seats only change between rounds, so open the next round's betting first
+  const openBetting = () => {
+    if (session.table.phase === "finished") {
+      session = nextSessionRound(session); // same table, same shoe, same bankrolls
     }
+    state = session.table;
+  };
+
+  while (true) {
+    const ans = (await ask(
+      "Deal another round? (y/n · j <name> join · b <name> add bot · l <name> leave · s stats) "
+    )).trim();
+    const [cmd = "", ...rest] = ans.split(" ");
+    const name = rest.join(" ").trim();
+    const seats = session.table.players.length;
+
+    switch (cmd.toLowerCase()) {
+      case "y":
+        openBetting();
+        return true;
+      case "j":
+      case "b":
+        openBetting();
+        session = joinSession(
+          session,
+          cmd.toLowerCase() === "b" ? { name, strategy: "basic" } : { name }
+        );
+        state = session.table;
+        console.log(state.players.length > seats ? "Seat taken." : "Table is full.");
+        continue;
+      case "l":
+        openBetting();
+        session = leaveSession(session, name);
+        state = session.table;
+        console.log(state.players.length < seats ? `${name} left the table.` : `No player "${name}".`);
+        continue;
+      case "s":
+        printSessionStats();
+        continue;
+      default:
+        printSessionStats();
+        return false;
+    }
+  }
+};
+
+// Optional side bets for a seat that has a main bet down; false = quit
+const takeSideBets = async (idx: number): Promise<boolean> => {
+  for (const bet of ["perfectPairs", "twentyOnePlusThree"] as const) {
+    if (!state.rules[bet]) continue; // not offered at this table
+
+    while (true) {
+      const ans = (await ask(`  ${sideBetLabel(bet)} side bet (0 for none): `)).trim().toLowerCase();
+      if (ans === "q") return false;
+
+      const amount = ans === "" ? 0 : Number(ans);
+      const error = sideBetError(state, idx, bet, amount);
+      if (error) {
+        console.log(`  ${error}`);
+        continue;
+      }
 
-    if (state.finished) {
-      computeOutcome();
+      state = placeSideBet(state, idx, bet, amount);
       break;
     }
+  }
+  return true;
+};
+
+// Betting phase: ask every human for a wager, then deal; false = quit
+const takeBets = async (): Promise<boolean> => {
+  const { minBet, maxBet } = state.limits;
 
-    const current = state.players[state.currentPlayerIndex]!;
+  for (let idx = 1; idx < state.players.length; idx++) {
+    const p = state.players[idx]!;
+    if (p.isBot) continue;
 
-    // Safety: if we somehow land on dealer earlier, let dealer play and finish
-    if (current.isDealer) {
-      console.log("Dealer's turn...");
-      await delay(1000);
-      state = dealerAutoPlay(state);
+    while (true) {
       renderState();
-      computeOutcome();
+      const ans = (await ask(
+        `${p.id}, place your bet (${minBet}-${maxBet}, 0 to sit out, q to quit): `
+      )).trim().toLowerCase();
+
+      if (ans === "q") return false;
+      if (ans === "0" || ans === "") break;
+
+      const amount = Number(ans);
+      const error = betError(state, idx, amount);
+      if (error) {
+        console.log(error);
+        await delay(1000);
+        continue;
+      }
+
+      state = placeBet(state, idx, amount);
+      if (!await takeSideBets(idx)) return false;
       break;
     }
+  }
 
-    // Skip players who are already done
-    if (
-      current.busted ||
-      current.standing ||
-      current.hasTwentyOne ||
-      current.isBlackjack
-    ) {
-      state = nextPlayer(state);
-      continue;
-    }
+  state = dealHands(state);
+  return true;
+};
 
-    // Bot turn
-    if (current.isBot) {
-      console.log(`Bot ${current.id} is thinking...`);
-      await delay(800);
-      state = botAutoPlay(state);     // bot hits/stands until done
-      state = nextPlayer(state);
-      continue;
-    }
+// Dealer shows an Ace: offer insurance / even money to a human; false = quit
+const askInsurance = async (idx: number): Promise<boolean> => {
+  const p = state.players[idx]!;
 
-    // Human turn
-    const ans = (await ask("(h)it, (s)tand, or (q)uit? ")).trim().toLowerCase();
+  if (!canTakeInsurance(state, idx)) {
+    console.log(`${p.id} can't afford insurance.`);
+    await delay(800);
+    state = declineInsurance(state, idx);
+    return true;
+  }
 
-    if (ans === "q") {
-      console.log("Quitting...");
-      break;
-    } else if (ans === "h") {
-      state = hit(state);
-      if (state.players[state.currentPlayerIndex]!.busted) {
-        state = nextPlayer(state);
+  const offer = p.hands[0]!.status === "blackjack"
+    ? "Even money"
+    : `Insurance for ${p.hands[0]!.bet / 2}`;
+  const ans = (await ask(`${p.id}: ${offer}? (y/n, q to quit) `)).trim().toLowerCase();
+
+  if (ans === "q") return false;
+  state = ans === "y" ? takeInsurance(state, idx) : declineInsurance(state, idx);
+  return true;
+};
+
+// Keys and prompt labels for the human actions
+const ACTION_OPTIONS: Record<BlackjackAction, [key: string, label: string]> = {
+  hit: ["h", "(h)it"],
+  stand: ["s", "(s)tand"],
+  double: ["d", "(d)ouble"],
+  split: ["p", "s(p)lit"],
+  surrender: ["r", "su(r)render"]
+};
+
+// Human turn: only offer what the table allows for this hand; false = quit
+const askAction = async (actions: BlackjackAction[]): Promise<boolean> => {
+  const options = [...actions.map(a => ACTION_OPTIONS[a][1]), "or (q)uit"];
+  const ans = (await ask(`${options.join(", ")}? `)).trim().toLowerCase();
+
+  if (ans === "q") {
+    console.log("Quitting...");
+    return false;
+  }
+
+  const action = actions.find(a => ACTION_OPTIONS[a][0] === ans);
+  if (action) {
+    state = applyBlackjackAction(state, action);
+  }
+  return true;
+};
+
+// Plays one round, asking humans whenever the engine waits on them;
+// resolves false if the user quit mid-round
+const playRound = async (): Promise<boolean> => {
+  while (true) {
+    const turn = nextTurn(state);
+
+    switch (turn.kind) {
+      case "bet":
+        return true; // nothing was dealt
+
+      case "finished":
+        renderState();
+        computeOutcome();
+        return true;
+
+      case "insurance":
+        renderState();
+        if (!await askInsurance(turn.playerIndex)) return false;
+        break;
+
+      case "act":
+        renderState();
+        if (!await askAction(turn.actions)) return false;
+        break;
+
+      case "auto": {
+        const p = state.players[turn.playerIndex];
+        const hand = currentHand(state);
+
+        if (state.phase === "playing" && p?.isDealer) {
+          renderState();
+          console.log("Dealer's turn...");
+          await delay(1000);
+        } else if (p?.isBot && hand && !isHandDone(hand)) {
+          renderState();
+          console.log(`Bot ${p.id} is thinking...`);
+          await delay(800);
+        }
+        state = step(state);
+        break;
       }
-    } else if (ans === "s") {
-      state = stand(state);
-      state = nextPlayer(state);
     }
   }
+};
+
+const main = async () => {
+  while (
+    await takeBets() &&
+    await playRound() &&
+    await betweenRounds()
+  ) {
+    // next round already set up by betweenRounds()
+  }
 
   rl.close();
 };
@@ -0,0 +1,231 @@
+// src/apps/cli/blackjack-sim.ts
+//
+// Headless Monte Carlo runner: bots play seeded rounds against the dealer
+// and we report EV, house edge, variance and dealer bust rates.
+//
+//   npm run sim:blackjack -- --rounds 1000000 --strategy basic --h17
+import {
+  BlackjackState,
+  BlackjackRules,
+  BlackjackStrategyName,
+  BlackjackDoubleOn,
+  BLACKJACK_STRATEGIES,
+  initBlackjack,
+  dealHands,
+  advance,
+  nextRound,
+  dealerUpcard,
+  dealerHand,
+  describeRules,
+  settleBlackjackRound
+} from "../../core/blackjack";
+import { randomSeed } from "../../core/random";
+
+interface SimOptions {
+  rounds: number;
+  seats: number;
+  seed: number;
+  strategy: BlackjackStrategyName;
+  penetration: number;
+  rules: Partial<BlackjackRules>;
+}
+
+interface SimReport {
+  rounds: number;
+  hands: number;
+  initialBets: number;   // units: every seat's opening bet
+  wagered: number;       // chips staked incl. doubles, splits and insurance
+  net: number;           // chips won (+) or lost (-) by the seats
+  roundSum: number;      // Σ per-seat round result in units of the opening bet
+  roundSumSq: number;
+  samples: number;       // seat-rounds
+  wins: number;
+  pushes: number;
+  losses: number;
+  dealerUp: Record<string, { rounds: number; busts: number }>;
+}
+
+const UPCARD_ORDER = ["2", "3", "4", "5", "6", "7", "8", "9", "10", "A"];
+
+const DOUBLE_ON: BlackjackDoubleOn[] = ["any", "9-11", "10-11"];
+
+// --key value / --flag argument parsing, no dependencies
+const parseArgs = (argv: string[]): SimOptions => {
+  const args = new Map<string, string>();
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]!;
+    if (!arg.startsWith("--")) continue;
+
+    const next = argv[i + 1];
+    if (next !== undefined && !next.startsWith("--")) {
+      args.set(arg.slice(2), next);
+      i++;
+    } else {
+      args.set(arg.slice(2), "true");
+    }
+  }
+
+  const num = (key: string, fallback: number): number => {
+    const raw = args.get(key);
+    const value = raw === undefined ? fallback : Number(raw);
+    if (!Number.isFinite(value)) {
+      throw new Error(`--${key} must be a number`);
+    }
+    return value;
+  };
+
+  const strategy = (args.get("strategy") ?? "basic") as BlackjackStrategyName;
+  if (!(strategy in BLACKJACK_STRATEGIES)) {
+    throw new Error(
+      `--strategy must be one of ${Object.keys(BLACKJACK_STRATEGIES).join(", ")}`
+    );
+  }
+
+  const rules: Partial<BlackjackRules> = { numDecks: num("decks", 6) };
+  if (args.has("h17")) rules.dealerHitsSoft17 = true;
+  if (args.get("payout") === "6:5") rules.blackjackPayout = "6:5";
+  if (args.has("double")) {
+    const doubleOn = args.get("double") as BlackjackDoubleOn;
+    if (!DOUBLE_ON.includes(doubleOn)) {
+      throw new Error(`--double must be one of ${DOUBLE_ON.join(", ")}`);
+    }
+    rules.doubleOn = doubleOn;
+  }
+  if (args.has("no-das")) rules.doubleAfterSplit = false;
+  if (args.has("no-surrender")) rules.lateSurrender = false;
+  if (args.has("rsa")) rules.resplitAces = true;
+  if (args.has("no-peek")) rules.dealerPeek = false;
+
+  return {
+    rounds: Math.max(1, Math.floor(num("rounds", 100_000))),
+    seats: Math.min(7, Math.max(1, Math.floor(num("seats", 1)))),
+    seed: num("seed", randomSeed()),
+    strategy,
+    penetration: num("penetration", 0.75),
+    rules
+  };
+};
+
+const simulate = (options: SimOptions, onProgress?: (done: number) => void): SimReport => {
+  let state = initBlackjack({
+    numHumans: 0,
+    numBots: options.seats,
+    botStrategies: Array.from({ length: options.seats }, () => options.strategy),
+    seed: options.seed,
+    penetration: options.penetration,
+    startingBankroll: 1e12, // never runs dry
+    rules: options.rules
+  });
+
+  const report: SimReport = {
+    rounds: 0,
+    hands: 0,
+    initialBets: 0,
+    wagered: 0,
+    net: 0,
+    roundSum: 0,
+    roundSumSq: 0,
+    samples: 0,
+    wins: 0,
+    pushes: 0,
+    losses: 0,
+    dealerUp: {}
+  };
+
+  for (let r = 0; r < options.rounds; r++) {
+    state = advance(dealHands(state)); // every seat is a bot, so this settles the round
+
+    const result = settleBlackjackRound(state);
+    const up = dealerUpcard(state);
+    const upKey = !up ? "?" : ["J", "Q", "K"].includes(up.rank) ? "10" : up.rank;
+    const bucket = (report.dealerUp[upKey] ??= { rounds: 0, busts: 0 });
+    bucket.rounds += 1;
+    if (dealerHand(state).status === "busted") bucket.busts += 1;
+
+    for (const seat of result.seats) {
+      const player = state.players[seat.playerIndex]!;
+      const x = seat.net / player.bet;
+
+      report.initialBets += player.bet;
+      report.wagered += seat.returned - (seat.net - seat.sideBetNet);
+      report.net += seat.net;
+      report.roundSum += x;
+      report.roundSumSq += x * x;
+      report.samples += 1;
+
+      for (const h of seat.hands) {
+        report.hands += 1;
+        if (h.outcome === "push") report.pushes += 1;
+        else if (h.payout > 1) report.wins += 1;
+        else report.losses += 1;
+      }
+    }
+
+    report.rounds += 1;
+    if (onProgress && (r + 1) % 100_000 === 0) onProgress(r + 1);
+
+    state = nextRound(state);
+  }
+
+  return report;
+};
+
+const pct = (x: number, digits = 2): string => `${(x * 100).toFixed(digits)}%`;
+
+const printReport = (options: SimOptions, report: SimReport, state: BlackjackState) => {
+  const n = report.samples;
+  const mean = report.roundSum / n;
+  const variance = n > 1 ? (report.roundSumSq - n * mean * mean) / (n - 1) : 0;
+  const sd = Math.sqrt(Math.max(variance, 0));
+  const margin = 1.96 * sd / Math.sqrt(n);
+
+  // Chip-weighted EV; equals the per-round mean when every bet is the same
+  const ev = report.net / report.initialBets;
+
+  console.log("=== Blackjack simulation ===");
+  console.log(`Rules:    ${describeRules(state.rules)} · penetration ${options.penetration}`);
+  console.log(
+    `Strategy: ${BLACKJACK_STRATEGIES[options.strategy].name} × ${options.seats} seat(s)`
+  );
+  console.log(`Rounds:   ${report.rounds.toLocaleString()} · seed ${options.seed}`);
+  console.log(
+    `Hands:    ${report.hands.toLocaleString()} · wagered ${report.wagered.toLocaleString()} chips`
+  );
+  console.log("");
+  console.log(`EV per initial bet:  ${pct(ev, 3)}`);
+  console.log(`House edge:          ${pct(-ev, 3)}`);
+  console.log(`95% CI (EV):         ${pct(mean - margin, 3)} … ${pct(mean + margin, 3)}`);
+  console.log(`Variance per round:  ${variance.toFixed(3)} (std dev ${sd.toFixed(3)} units)`);
+  console.log(
+    `Hands won / pushed / lost: ${pct(report.wins / report.hands)} / ` +
+    `${pct(report.pushes / report.hands)} / ${pct(report.losses / report.hands)}`
+  );
+  console.log("");
+  console.log("Dealer bust rate by upcard:");
+  for (const up of UPCARD_ORDER) {
+    const b = report.dealerUp[up];
+    if (!b) continue;
+    console.log(`  ${up.padStart(2)}: ${pct(b.busts / b.rounds).padStart(7)}  (${b.rounds.toLocaleString()} rounds)`);
+  }
+};
+
+const main = () => {
+  const options = parseArgs(process.argv.slice(2));
+  const started = Date.now();
+
+  const report = simulate(options, done => {
+    process.stderr.write(`  ${done.toLocaleString()} rounds...\r`);
+  });
+
+  // A fresh table just to show the rules in force (defaults merged in)
+  const table = initBlackjack({ numHumans: 0, rules: options.rules });
+  printReport(options, report, table);
+  console.log(`\nDone in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+};
+
+try {
+  main();
+} catch (err) {
+  console.error("Simulation failed:", err instanceof Error ? err.message : err);
+  process.exitCode = 1;
+}
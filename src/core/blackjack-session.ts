@@ -0,0 +1,171 @@
+// src/core/blackjack-session.ts
+import {
+  BlackjackConfig,
+  BlackjackEvent,
+  BlackjackSeatConfig,
+  BlackjackState,
+  initBlackjack,
+  joinTable,
+  leaveTable,
+  nextRound,
+  replayBlackjack,
+  replayBlackjackEvent,
+  settleBlackjackRound
+} from "./blackjack";
+
+export interface BlackjackPlayerStats {
+  rounds: number;      // rounds with a bet down
+  hands: number;       // hands played, split hands counted separately
+  wins: number;        // includes naturals and even money
+  pushes: number;
+  losses: number;      // includes surrenders
+  blackjacks: number;
+  net: number;         // chips won (+) or lost (-) over the session
+}
+
+// A finished round's event log, as recorded in the session
+export interface BlackjackRoundLog {
+  round: number;
+  log: BlackjackEvent[];
+}
+
+/**
+ * A table that lives across rounds: seats, bankrolls and the shoe carry
+ * over in `table`, and each finished round is folded into per-player
+ * stats and the history. Stats are keyed by player id and kept after a
+ * player leaves.
+ */
+export interface BlackjackSession {
+  config: BlackjackConfig;     // what the table was created with, seed in place of any rng
+  table: BlackjackState;
+  stats: Record<string, BlackjackPlayerStats>;
+  roundsRecorded: number;      // last table round already counted in stats
+  history: BlackjackRoundLog[]; // recorded rounds, oldest first
+}
+
+const emptyStats = (): BlackjackPlayerStats => ({
+  rounds: 0,
+  hands: 0,
+  wins: 0,
+  pushes: 0,
+  losses: 0,
+  blackjacks: 0,
+  net: 0
+});
+
+export const createSession = (config: BlackjackConfig): BlackjackSession => {
+  const table = initBlackjack(config);
+
+  // Keep the seed, not a custom rng: it has already dealt by now, and
+  // replays rebuild the shoe from the seed
+  const { rng: _rng, ...rest } = config;
+
+  return {
+    config: { ...rest, seed: table.seed },
+    table,
+    stats: {},
+    roundsRecorded: 0,
+    history: []
+  };
+};
+
+// Apply any table action (hit, placeBet, dealerAutoPlay, ...) to the session
+export const updateTable = (
+  session: BlackjackSession,
+  action: (table: BlackjackState) => BlackjackState
+): BlackjackSession => {
+  const table = action(session.table);
+  return table === session.table ? session : { ...session, table };
+};
+
+/**
+ * Counts a finished round in the stats. Safe to call more than once:
+ * each round is only recorded the first time.
+ */
+export const recordRound = (session: BlackjackSession): BlackjackSession => {
+  const { table } = session;
+  if (table.phase !== "finished" || session.roundsRecorded >= table.round) {
+    return session;
+  }
+
+  const stats = { ...session.stats };
+
+  for (const seat of settleBlackjackRound(table).seats) {
+    const player = table.players[seat.playerIndex];
+    if (!player) continue;
+
+    const s = { ...(stats[player.id] ?? emptyStats()) };
+    s.rounds += 1;
+    s.net += seat.net;
+
+    for (const h of seat.hands) {
+      s.hands += 1;
+      if (h.outcome === "blackjack") s.blackjacks += 1;
+      if (h.outcome === "push") s.pushes += 1;
+      else if (h.payout > 1) s.wins += 1;
+      else s.losses += 1;
+    }
+
+    stats[player.id] = s;
+  }
+
+  return {
+    ...session,
+    stats,
+    roundsRecorded: table.round,
+    history: [...session.history, { round: table.round, log: table.log }]
+  };
+};
+
+// Record the round just played, then open betting on the next one.
+// Unchanged until the round is finished.
+export const nextSessionRound = (session: BlackjackSession): BlackjackSession => {
+  if (session.table.phase !== "finished") return session;
+
+  const recorded = recordRound(session);
+  return { ...recorded, table: nextRound(recorded.table) };
+};
+
+// Every player id the session has known, seated or not
+const knownPlayerIds = (session: BlackjackSession): Set<string> => {
+  const ids = new Set(Object.keys(session.stats));
+  for (const event of [...session.history.flatMap(h => h.log), ...session.table.log]) {
+    if (event.type === "join") ids.add(event.playerId);
+  }
+  return ids;
+};
+
+// Seat a new player between rounds (see joinTable). A departed player's id
+// stays theirs, so a newcomer never inherits their stats or history.
+export const joinSession = (
+  session: BlackjackSession,
+  seat: BlackjackSeatConfig
+): BlackjackSession => updateTable(session, t => joinTable(t, seat, knownPlayerIds(session)));
+
+// A player leaves between rounds; their stats stay in the session
+export const leaveSession = (session: BlackjackSession, playerId: string): BlackjackSession =>
+  updateTable(session, t => leaveTable(t, playerId));
+
+// Stats for one player (zeros if they haven't finished a round yet)
+export const playerStats = (session: BlackjackSession, playerId: string): BlackjackPlayerStats =>
+  session.stats[playerId] ?? emptyStats();
+
+/**
+ * Replays a recorded round from the session's seed: the table as it stood
+ * before the round's first event, then after each event in turn. Empty if
+ * the round isn't in the history.
+ */
+export const replayRound = (session: BlackjackSession, round: number): BlackjackState[] => {
+  const idx = session.history.findIndex(h => h.round === round);
+  const entry = session.history[idx];
+  if (!entry) return [];
+
+  const before = session.history.slice(0, idx).flatMap(h => h.log);
+  const states = [replayBlackjack(session.config, before)];
+
+  for (const event of entry.log) {
+    states.push(replayBlackjackEvent(states[states.length - 1]!, event));
+  }
+
+  return states;
+};
@@ -0,0 +1,174 @@
+// src/core/blackjack-trainer.ts
+import { Card, Rank, Suit } from "./cards";
+import { Rng, createRng } from "./random";
+import { stackShoe } from "./shoe";
+import {
+  BlackjackAction,
+  BlackjackState,
+  BLACKJACK_STRATEGIES,
+  decisionFor,
+  evaluateHand
+} from "./blackjack";
+
+// Grade for one human decision against basic strategy
+export interface BlackjackGrade {
+  action: BlackjackAction;   // what the player did
+  best: BlackjackAction;     // what the chart says
+  correct: boolean;
+  category: string;          // e.g. "hard 16", "soft 18", "pair 8"
+  upcard: Card;
+}
+
+export interface BlackjackTrainerStats {
+  decisions: number;
+  correct: number;
+  byCategory: Record<string, { seen: number; wrong: number }>;
+}
+
+export const emptyTrainerStats = (): BlackjackTrainerStats => ({
+  decisions: 0,
+  correct: 0,
+  byCategory: {}
+});
+
+const SUITS: Suit[] = ["♠", "♥", "♦", "♣"];
+const TEN_RANKS: Rank[] = ["10", "J", "Q", "K"];
+
+// Which bucket a hand's mistakes are counted in
+export const handCategory = (cards: Card[]): string => {
+  const { total, soft, pairRank } = evaluateHand(cards);
+  if (pairRank) return `pair ${pairRank}`;
+  return `${soft ? "soft" : "hard"} ${total}`;
+};
+
+/**
+ * Compares an action the acting (human) seat is about to take with the
+ * basic-strategy chart for the table's rules. Null if no hand is waiting
+ * on a decision.
+ */
+export const gradeDecision = (
+  state: BlackjackState,
+  action: BlackjackAction
+): BlackjackGrade | null => {
+  const decision = decisionFor(state);
+  if (!decision) return null;
+
+  const best = BLACKJACK_STRATEGIES.basic.decide(decision);
+
+  return {
+    action,
+    best,
+    correct: action === best,
+    category: handCategory(decision.hand.cards),
+    upcard: decision.dealerUpcard
+  };
+};
+
+export const recordGrade = (
+  stats: BlackjackTrainerStats,
+  grade: BlackjackGrade
+): BlackjackTrainerStats => {
+  const prev = stats.byCategory[grade.category] ?? { seen: 0, wrong: 0 };
+
+  return {
+    decisions: stats.decisions + 1,
+    correct: stats.correct + (grade.correct ? 1 : 0),
+    byCategory: {
+      ...stats.byCategory,
+      [grade.category]: {
+        seen: prev.seen + 1,
+        wrong: prev.wrong + (grade.correct ? 0 : 1)
+      }
+    }
+  };
+};
+
+export const trainerAccuracy = (stats: BlackjackTrainerStats): number =>
+  stats.decisions ? stats.correct / stats.decisions : 1;
+
+// Categories with mistakes, worst error rate first (ties: most mistakes)
+export const weakestCategories = (stats: BlackjackTrainerStats, limit = 3): string[] =>
+  Object.entries(stats.byCategory)
+    .filter(([, c]) => c.wrong > 0)
+    .sort(([, a], [, b]) => b.wrong / b.seen - a.wrong / a.seen || b.wrong - a.wrong)
+    .slice(0, limit)
+    .map(([category]) => category);
+
+// Every two-card starting hand that needs a decision
+export const DRILL_CATEGORIES: string[] = [
+  ...Array.from({ length: 15 }, (_, i) => `hard ${i + 5}`),  // 5..19
+  ...Array.from({ length: 8 }, (_, i) => `soft ${i + 13}`),  // A2..A9
+  ...["2", "3", "4", "5", "6", "7", "8", "9", "10", "A"].map(v => `pair ${v}`)
+];
+
+const pick = <T>(items: T[], rng: Rng): T => {
+  const item = items[Math.floor(rng.next() * items.length)];
+  if (item === undefined) {
+    throw new Error("Nothing to pick from");
+  }
+  return item;
+};
+
+const cardOfValue = (value: number, rng: Rng): Card => ({
+  rank: value === 11 ? "A" : value === 10 ? pick(TEN_RANKS, rng) : (String(value) as Rank),
+  suit: pick(SUITS, rng)
+});
+
+// Two cards that land in the given category
+export const drillCards = (category: string, rng: Rng = createRng()): [Card, Card] => {
+  const [kind, raw] = category.split(" ");
+  const value = raw === "A" ? 11 : Number(raw);
+
+  if (kind === "pair") {
+    return [cardOfValue(value, rng), cardOfValue(value, rng)];
+  }
+  if (kind === "soft") {
+    return [cardOfValue(11, rng), cardOfValue(value - 11, rng)];
+  }
+
+  // Hard total from two different non-Ace values
+  const firsts = [2, 3, 4, 5, 6, 7, 8, 9, 10].filter(a => {
+    const b = value - a;
+    return b >= 2 && b <= 10 && b !== a;
+  });
+  if (kind !== "hard" || firsts.length === 0) {
+    throw new Error(`Unknown drill category: ${category}`);
+  }
+
+  const a = pick(firsts, rng);
+  return [cardOfValue(a, rng), cardOfValue(value - a, rng)];
+};
+
+/**
+ * Stacks the shoe so the next dealHands() gives the seat a hand from the
+ * category against a random upcard. Seats are dealt two cards each in
+ * table order (dealer first, upcard then hole card); bots always bet if
+ * they can cover the minimum.
+ */
+export const stackDrillDeal = (
+  state: BlackjackState,
+  playerIndex: number,
+  category: string,
+  rng: Rng = createRng()
+): BlackjackState => {
+  if (state.phase !== "betting") return state;
+
+  const upcard = cardOfValue(pick([2, 3, 4, 5, 6, 7, 8, 9, 10, 11], rng), rng);
+  const wanted: (Card | null)[] = [upcard, null];
+
+  for (let idx = 1; idx < state.players.length; idx++) {
+    const p = state.players[idx];
+    if (!p) continue;
+
+    const playing = p.bet > 0 || (p.isBot && p.bankroll >= state.limits.minBet);
+    if (!playing) continue;
+
+    if (idx === playerIndex) {
+      wanted.push(...drillCards(category, rng));
+      break;
+    }
+    wanted.push(null, null);
+  }
+
+  return { ...state, shoe: stackShoe(state.shoe, wanted) };
+};
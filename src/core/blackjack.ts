@@ -1,5 +1,16 @@
 // src/core/blackjack.ts
-import { Card, createDeck, shuffle, dealOne } from "./cards";
+import { Card, Rank } from "./cards";
+import { Rng, createRng } from "./random";
+import {
+  Shoe,
+  createShoe,
+  cloneShoe,
+  drawFromShoe,
+  discardToShoe,
+  needsReshuffle,
+  reshuffleShoe,
+  stackShoe
+} from "./shoe";
 
 export interface BlackjackConfig {
   numHumans: number;
@@ -7,24 +18,291 @@ export interface BlackjackConfig {
   humanNames?: string[]; // optional names for humans
   botNames?: string[];   // optional names for bots
   dealerName?: string;   // optional dealer label (e.g. "Dealer", "House")
+  seed?: number;         // fixed seed to replay a deal card-for-card
+  rng?: Rng;             // custom random source (takes precedence over seed)
+  penetration?: number;  // cut-card position as fraction dealt (default 0.75)
+  startingBankroll?: number; // chips each non-dealer seat starts with (default 1000)
+  minBet?: number;           // table minimum (default 10)
+  maxBet?: number;           // table maximum (default 500)
+  rules?: Partial<BlackjackRules>; // house rules; anything left out uses DEFAULT_BLACKJACK_RULES
+  botStrategies?: (BlackjackStrategyName | BlackjackStrategy)[]; // per bot, like botNames (default "basic")
+}
+
+export type BlackjackPayout = "3:2" | "6:5";
+
+// Which two-card totals may be doubled
+export type BlackjackDoubleOn = "any" | "9-11" | "10-11";
+
+/**
+ * House rules for a table. Everything that differs between casinos lives
+ * here, so the engine, the CLI and the view all read the same switches.
+ */
+export interface BlackjackRules {
+  numDecks: number;           // decks in the shoe, 1–8
+  dealerHitsSoft17: boolean;  // H17 (true) or S17 (false)
+  blackjackPayout: BlackjackPayout;
+  doubleOn: BlackjackDoubleOn;
+  doubleAfterSplit: boolean;  // may double a hand created by a split
+  maxSplitHands: number;      // hands a seat may split into
+  resplitAces: boolean;       // may split aces again after splitting aces
+  hitSplitAces: boolean;      // split aces may draw more than one card
+  lateSurrender: boolean;     // may surrender the first two cards for half the bet
+  dealerPeek: boolean;        // dealer checks for blackjack under an Ace or ten
+  offerInsurance: boolean;    // insurance / even money when the upcard is an Ace
+  twentyOneBeatsEqualScore: boolean; // a player's 21 wins (not pushes) against a dealer's 21
+  perfectPairs: PerfectPairsPaytable | null;             // null = side bet not offered
+  twentyOnePlusThree: TwentyOnePlusThreePaytable | null; // null = side bet not offered
+}
+
+// Side bet paytables, each entry paid "N to 1"
+export interface PerfectPairsPaytable {
+  mixed: number;    // same rank, different colours
+  colored: number;  // same rank and colour, different suits
+  perfect: number;  // identical cards
+}
+
+export interface TwentyOnePlusThreePaytable {
+  flush: number;
+  straight: number;
+  threeOfAKind: number;
+  straightFlush: number;
+  suitedTrips: number;
+}
+
+export const DEFAULT_PERFECT_PAIRS_PAYTABLE: PerfectPairsPaytable = {
+  mixed: 6,
+  colored: 12,
+  perfect: 25
+};
+
+export const DEFAULT_TWENTY_ONE_PLUS_THREE_PAYTABLE: TwentyOnePlusThreePaytable = {
+  flush: 5,
+  straight: 10,
+  threeOfAKind: 30,
+  straightFlush: 40,
+  suitedTrips: 100
+};
+
+export type BlackjackSideBet = "perfectPairs" | "twentyOnePlusThree";
+
+// Winning combination for a side bet, e.g. "colored" or "straightFlush"
+export type BlackjackSideBetHand =
+  | keyof PerfectPairsPaytable
+  | keyof TwentyOnePlusThreePaytable;
+
+export interface BlackjackSideBetResult {
+  bet: BlackjackSideBet;
+  wager: number;
+  hand: BlackjackSideBetHand | null; // null = lost
+  returned: number;                  // stake + winnings, or 0
+}
+
+export const DEFAULT_BLACKJACK_RULES: BlackjackRules = {
+  numDecks: 6,
+  dealerHitsSoft17: false,
+  blackjackPayout: "3:2",
+  doubleOn: "any",
+  doubleAfterSplit: true,
+  maxSplitHands: 4,
+  resplitAces: false,
+  hitSplitAces: false,
+  lateSurrender: true,
+  dealerPeek: true,
+  offerInsurance: true,
+  twentyOneBeatsEqualScore: false,
+  perfectPairs: null,
+  twentyOnePlusThree: null
+};
+
+export type BlackjackPhase =
+  | "betting"   // seats place bets, no cards out yet
+  | "insurance" // dealer shows an Ace: seats take or decline insurance
+  | "playing"   // cards dealt, seats (then dealer) act
+  | "finished"; // dealer done, bets settled
+
+export interface BlackjackTableLimits {
+  minBet: number;
+  maxBet: number;
+}
+
+/**
+ * Where a hand is in its life. Every hand starts as "playing" (or
+ * "blackjack" when dealt a natural) and moves along HAND_TRANSITIONS;
+ * anything other than "playing" is finished.
+ */
+export type BlackjackHandStatus =
+  | "playing"       // waiting on a decision
+  | "stood"         // stood, or reached 21 and stopped drawing
+  | "busted"
+  | "blackjack"     // natural blackjack (2-card 21, never after a split)
+  | "doubled"       // doubled down and took its one card without busting
+  | "surrendered"
+  | "even-money";   // natural paid 1:1 up front against a dealer Ace
+
+export interface BlackjackHand {
+  cards: Card[];
+  bet: number;            // chips riding on this hand
+  status: BlackjackHandStatus;
+  fromSplit: boolean;     // created by splitting a pair
 }
 
 export interface BlackjackPlayer {
   id: string;           // "H1", "B1", etc.
-  hand: Card[];
+  hands: BlackjackHand[]; // empty = sitting out; dealer always has one
   isDealer: boolean;
   isBot: boolean;
-  standing: boolean;
-  busted: boolean;
-  isBlackjack: boolean;   // natural blackjack (2-card 21)
-  hasTwentyOne: boolean;  // any exact 21 (including naturals)
+  strategy: BlackjackStrategy | null; // how a bot plays; null for humans and the dealer
+  bankroll: number;     // chips not currently on the table
+  bet: number;          // opening wager this round (0 = sitting out)
+  insurance: number;    // insurance side bet this round (0 = none)
+  insuranceDecided: boolean; // answered the insurance / even money offer
+  sideBets: Record<BlackjackSideBet, number>; // side wagers this round (0 = none)
+  sideBetResults: BlackjackSideBetResult[];   // resolved as the cards are dealt
+  net: number;          // bankroll change from the last settlement
 }
 
 export interface BlackjackState {
-  deck: Card[];
+  seed: number;               // seed the shoe was first shuffled with
+  shoe: Shoe;                 // persists across rounds
+  round: number;              // 1-based round number at this table
+  reshuffled: boolean;        // shoe was (re)shuffled before this round's deal
+  limits: BlackjackTableLimits;
+  rules: BlackjackRules;
+  startingBankroll: number;   // chips a seat joining the table buys in with
   players: BlackjackPlayer[]; // index 0 = dealer
   currentPlayerIndex: number;
-  finished: boolean;
+  currentHandIndex: number;   // which of the current player's hands is acting
+  holeCardHidden: boolean;    // dealer's second card is face down
+  phase: BlackjackPhase;
+  log: BlackjackEvent[];      // this round's events, oldest first
+}
+
+// How a hand finished; "blackjack" is a winning natural paid at the table rate
+export type BlackjackOutcome = "blackjack" | "win" | "push" | "lose" | "surrender";
+
+// Why it finished that way
+export type BlackjackResultReason =
+  | "natural"        // player natural vs no dealer natural
+  | "dealer-bust"
+  | "higher-score"
+  | "twenty-one-tie" // 21 vs dealer 21 under twentyOneBeatsEqualScore
+  | "equal-score"    // push (including two naturals)
+  | "lower-score"
+  | "bust"
+  | "both-bust"      // player busted first, so the house still wins
+  | "dealer-natural"
+  | "even-money"
+  | "surrender";
+
+export interface BlackjackHandResult {
+  outcome: BlackjackOutcome;
+  reason: BlackjackResultReason;
+  payout: number;   // chips returned per chip bet: 0 lose, 0.5 surrender, 1 push, 2 win, 2.5 natural at 3:2
+  score: number;    // final total, 0 if busted
+  bet: number;
+}
+
+export interface BlackjackSeatResult {
+  playerIndex: number;
+  hands: BlackjackHandResult[];
+  insurance: number;      // insurance staked
+  insurancePaid: number;  // chips returned by insurance (stake + 2:1, or 0)
+  returned: number;       // paid back at settlement (side bets were paid on the deal)
+  sideBetNet: number;     // side bet winnings minus side bet stakes
+  net: number;            // everything won or lost this round, side bets included
+}
+
+export interface BlackjackRoundResult {
+  dealerScore: number;    // 0 if busted
+  dealerBusted: boolean;
+  dealerBlackjack: boolean;
+  seats: BlackjackSeatResult[]; // seats that played the round, table order
+}
+
+/**
+ * One entry in a round's log. Every table transition appends what it did,
+ * with the cards it dealt, so a round can be replayed or explained later
+ * (see replayBlackjack). "bust" is a consequence of the card before it
+ * and is skipped on replay.
+ */
+export type BlackjackEvent =
+  | { type: "round"; round: number; reshuffled: boolean }  // nextRound opened betting
+  | { type: "join"; playerId: string; seat: BlackjackSeatConfig }
+  | { type: "leave"; playerId: string }
+  | { type: "bet"; playerIndex: number; amount: number }
+  | { type: "side-bet"; playerIndex: number; bet: BlackjackSideBet; amount: number }
+  | { type: "deal"; hands: { playerIndex: number; cards: Card[] }[] } // table order, dealer first
+  | { type: "insurance"; playerIndex: number; taken: boolean }
+  | { type: "insurance-closed" }
+  | { type: "hit"; playerIndex: number; handIndex: number; card: Card }
+  | { type: "stand"; playerIndex: number; handIndex: number }
+  | { type: "double"; playerIndex: number; handIndex: number; card: Card }
+  | { type: "split"; playerIndex: number; handIndex: number; cards: [Card, Card] }
+  | { type: "surrender"; playerIndex: number; handIndex: number }
+  | { type: "bust"; playerIndex: number; handIndex: number }
+  | { type: "turn"; playerIndex: number; handIndex: number } // nextPlayer moved on
+  | { type: "reveal" }                                       // hole card turned over
+  | { type: "dealer-draw"; card: Card }
+  | { type: "settle"; result: BlackjackRoundResult };
+
+// What a set of cards is worth (see evaluateHand)
+export interface BlackjackHandValue {
+  hard: number;            // every Ace counted as 1
+  total: number;           // best total: one Ace as 11 when that doesn't bust
+  soft: boolean;           // an Ace is counted as 11 in total
+  pair: boolean;           // two cards of equal value (8-8, K-10, A-A)
+  pairRank: Rank | null;   // the pair's rank, "10" for any two ten-value cards
+  busted: boolean;
+  natural: boolean;        // two-card 21 (a blackjack unless dealt after a split)
+}
+
+export type BlackjackAction = "hit" | "stand" | "double" | "split" | "surrender";
+
+// What any seat can know about the shoe: the rules and every card shown
+// since the last shuffle (this is what counting strategies remember)
+export interface BlackjackShoeView {
+  rules: BlackjackRules;
+  seenCards: Card[];
+  decksRemaining: number;   // unseen cards / 52, hole card included
+}
+
+// Everything a strategy may look at when a hand needs a decision
+export interface BlackjackDecision extends BlackjackShoeView {
+  hand: BlackjackHand;      // the hand to play
+  hands: BlackjackHand[];   // all of the seat's hands (after splits)
+  dealerUpcard: Card;
+  canDouble: boolean;
+  canSplit: boolean;
+  canSurrender: boolean;
+}
+
+export interface BlackjackBetDecision extends BlackjackShoeView {
+  bankroll: number;
+  limits: BlackjackTableLimits;
+}
+
+/**
+ * Pluggable bot brain. decide() should only return actions the decision
+ * allows; anything illegal is treated as "stand".
+ * Without bet() a bot wagers the table minimum; without insurance() it
+ * always declines.
+ */
+export interface BlackjackStrategy {
+  name: string;
+  decide(decision: BlackjackDecision): BlackjackAction;
+  bet?(decision: BlackjackBetDecision): number;
+  insurance?(view: BlackjackShoeView, hand: BlackjackHand): boolean;
+}
+
+export type BlackjackStrategyName = "basic" | "naive" | "hi-lo" | "ko" | "omega-ii";
+
+export type BlackjackCountingSystemName = "hi-lo" | "ko" | "omega-ii";
+
+export interface BlackjackCount {
+  system: BlackjackCountingSystemName;
+  runningCount: number;   // KO starts from its initial running count
+  trueCount: number;      // Hi-Lo-equivalent count per remaining deck
+  decksRemaining: number;
 }
 
 const getPlayer = (players: BlackjackPlayer[], index: number): BlackjackPlayer => {
@@ -35,48 +313,222 @@ const getPlayer = (players: BlackjackPlayer[], index: number): BlackjackPlayer =
   return p;
 };
 
+const getHand = (player: BlackjackPlayer, index: number): BlackjackHand => {
+  const h = player.hands[index];
+  if (!h) {
+    throw new Error(`Invalid hand index ${index} for ${player.id}`);
+  }
+  return h;
+};
+
+const clonePlayers = (players: BlackjackPlayer[]): BlackjackPlayer[] =>
+  players.map(p => ({
+    ...p,
+    hands: p.hands.map(h => ({ ...h, cards: [...h.cards] }))
+  }));
+
+// Append to the round log
+const withEvents = (state: BlackjackState, ...events: BlackjackEvent[]): BlackjackState => ({
+  ...state,
+  log: [...state.log, ...events]
+});
+
 const cardValue = (card: Card): number[] => {
   if (card.rank === "A") return [1, 11];
   if (["J", "Q", "K"].includes(card.rank)) return [10];
   return [parseInt(card.rank, 10)];
 };
 
-export const handScore = (hand: Card[]): number => {
-  let totals = [0];
+/**
+ * Everything the table needs to know about a set of cards. At most one
+ * Ace can count as 11 without busting, so the best total is the hard
+ * total plus 10 when that Ace fits, and the hand is soft exactly then.
+ */
+export const evaluateHand = (cards: Card[]): BlackjackHandValue => {
+  const hard = cards.reduce((sum, c) => sum + (cardValue(c)[0] ?? 0), 0);
+  const soft = cards.some(c => c.rank === "A") && hard + 10 <= 21;
+  const total = soft ? hard + 10 : hard;
 
-  for (const card of hand) {
-    const values = cardValue(card);
-    const nextTotals: number[] = [];
+  const [a, b] = cards;
+  const pair = cards.length === 2 && !!a && !!b && cardValue(a)[0] === cardValue(b)[0];
+  const pairRank: Rank | null = !pair || !a ? null : cardValue(a)[0] === 10 ? "10" : a.rank;
 
-    for (const t of totals) {
-      for (const v of values) {
-        nextTotals.push(t + v);
-      }
-    }
+  return {
+    hard,
+    total,
+    soft,
+    pair,
+    pairRank,
+    busted: total > 21,
+    natural: cards.length === 2 && total === 21
+  };
+};
+
+// Best total, e.g. 17 for A-6
+export const handScore = (hand: Card[]): number => evaluateHand(hand).total;
+
+export const isBusted = (hand: Card[]): boolean => evaluateHand(hand).busted;
+
+// Soft = an Ace is currently being counted as 11
+export const isSoftHand = (hand: Card[]): boolean => evaluateHand(hand).soft;
+
+// natural blackjack = 2-card 21
+export const isNaturalBlackjack = (hand: Card[]): boolean => evaluateHand(hand).natural;
+
+// Total as a player reads it: "soft 17" for A-6, "16" for 10-6
+export const describeHandValue = (value: BlackjackHandValue): string =>
+  value.soft ? `soft ${value.total}` : `${value.total}`;
+
+// The only status changes the engine makes; finished hands never move on
+const HAND_TRANSITIONS: Record<BlackjackHandStatus, readonly BlackjackHandStatus[]> = {
+  playing: ["stood", "busted", "doubled", "surrendered"],
+  blackjack: ["even-money"],
+  stood: [],
+  busted: [],
+  doubled: [],
+  surrendered: [],
+  "even-money": []
+};
 
-    totals = Array.from(new Set(nextTotals));
+export const canTransition = (from: BlackjackHandStatus, to: BlackjackHandStatus): boolean =>
+  HAND_TRANSITIONS[from].includes(to);
+
+// Moves a (cloned) hand to a new status; an illegal move is an engine bug
+const setStatus = (hand: BlackjackHand, to: BlackjackHandStatus): void => {
+  if (!canTransition(hand.status, to)) {
+    throw new Error(`Invalid hand transition: ${hand.status} -> ${to}`);
   }
+  hand.status = to;
+};
 
-  const valid = totals.filter(t => t <= 21);
-  return valid.length ? Math.max(...valid) : Math.min(...totals);
+export const isHandDone = (h: BlackjackHand): boolean => h.status !== "playing";
+
+// Table-style label for a hand's status, e.g. "BUST"; "21" for any
+// non-natural hand that stopped on 21, "" while still in play
+export const handStatusLabel = (h: BlackjackHand): string => {
+  switch (h.status) {
+    case "playing": return "";
+    case "stood": return handScore(h.cards) === 21 ? "21" : "STAND";
+    case "busted": return "BUST";
+    case "blackjack": return "BLACKJACK";
+    case "doubled": return "DOUBLED";
+    case "surrendered": return "SURRENDER";
+    case "even-money": return "EVEN MONEY";
+  }
 };
 
-export const isBusted = (hand: Card[]): boolean => handScore(hand) > 21;
+// A seat is done once every hand is; a seat sitting out has no hands
+const isPlayerDone = (p: BlackjackPlayer): boolean => p.hands.every(isHandDone);
 
-// natural blackjack = 2-card 21
-export const isNaturalBlackjack = (hand: Card[]): boolean => {
-  return hand.length === 2 && handScore(hand) === 21;
+// The dealer's single hand
+export const dealerHand = (state: BlackjackState): BlackjackHand =>
+  getHand(getPlayer(state.players, 0), 0);
+
+// The dealer's face-up card
+export const dealerUpcard = (state: BlackjackState): Card | undefined =>
+  state.players[0]?.hands[0]?.cards[0];
+
+// What the seats can see of the dealer's hand: just the upcard while the
+// hole card is down, everything once it's turned over
+export const visibleDealerCards = (state: BlackjackState): Card[] => {
+  const cards = state.players[0]?.hands[0]?.cards ?? [];
+  return state.holeCardHidden ? cards.slice(0, 1) : cards;
 };
 
-const isPlayerDone = (p: BlackjackPlayer): boolean =>
-  p.busted || p.standing || p.hasTwentyOne || p.isBlackjack;
+// The hand currently being played, if any
+export const currentHand = (state: BlackjackState): BlackjackHand | undefined =>
+  state.players[state.currentPlayerIndex]?.hands[state.currentHandIndex];
+
+// Fresh hand with its starting status derived from its cards
+const makeHand = (cards: Card[], bet: number, fromSplit: boolean): BlackjackHand => {
+  const status: BlackjackHandStatus =
+    !fromSplit && isNaturalBlackjack(cards) ? "blackjack" :
+    handScore(cards) === 21 ? "stood" :
+    "playing";
+
+  return { cards, bet, status, fromSplit };
+};
+
+// Seats that bet this round get 2 cards; the rest sit the round out
+const dealSeat = (seat: BlackjackPlayer, shoe: Shoe): BlackjackPlayer => {
+  if (!seat.isDealer && seat.bet === 0) {
+    return { ...seat, hands: [] };
+  }
+
+  const cards = [drawFromShoe(shoe), drawFromShoe(shoe)];
+  return { ...seat, hands: [makeHand(cards, seat.bet, false)] };
+};
+
+// Empty seat between rounds: no cards, no bet, bankroll untouched
+const resetSeat = (seat: BlackjackPlayer): BlackjackPlayer => ({
+  ...seat,
+  hands: [],
+  bet: 0,
+  insurance: 0,
+  insuranceDecided: false,
+  sideBets: { perfectPairs: 0, twentyOnePlusThree: 0 },
+  sideBetResults: [],
+  net: 0
+});
+
+const makeSeat = (
+  id: string,
+  isDealer: boolean,
+  strategy: BlackjackStrategy | null,
+  bankroll: number
+): BlackjackPlayer => ({
+  id,
+  hands: [],
+  isDealer,
+  isBot: strategy !== null,
+  strategy,
+  bankroll,
+  bet: 0,
+  insurance: 0,
+  insuranceDecided: false,
+  sideBets: { perfectPairs: 0, twentyOnePlusThree: 0 },
+  sideBetResults: [],
+  net: 0
+});
+
+const resolveStrategy = (
+  strategy: BlackjackStrategyName | BlackjackStrategy
+): BlackjackStrategy =>
+  typeof strategy === "string" ? BLACKJACK_STRATEGIES[strategy] : strategy;
+
+const payoutRatio = (payout: BlackjackPayout): number =>
+  payout === "6:5" ? 6 / 5 : 3 / 2;
+
+// Short table-card summary, e.g. "6 decks · S17 · BJ 3:2 · DAS · LS"
+export const describeRules = (rules: BlackjackRules): string => {
+  const parts = [
+    `${rules.numDecks} deck${rules.numDecks === 1 ? "" : "s"}`,
+    rules.dealerHitsSoft17 ? "H17" : "S17",
+    `BJ ${rules.blackjackPayout}`
+  ];
+  if (rules.doubleOn !== "any") parts.push(`double ${rules.doubleOn}`);
+  if (rules.doubleAfterSplit) parts.push("DAS");
+  if (rules.resplitAces) parts.push("RSA");
+  if (rules.lateSurrender) parts.push("LS");
+  if (!rules.dealerPeek) parts.push("no peek");
+  if (rules.twentyOneBeatsEqualScore) parts.push("21 beats 21");
+  if (rules.perfectPairs) parts.push("Perfect Pairs");
+  if (rules.twentyOnePlusThree) parts.push("21+3");
+  return parts.join(" · ");
+};
 
 /**
  * numHumans: how many human players (for React later)
  * numBots: how many bot players
+ * penetration: fraction of the shoe dealt before the cut card (default 0.75)
+ * rules: house rules, merged over DEFAULT_BLACKJACK_RULES
  *
  * Dealer is always index 0.
  * Humans come first (H1..Hn), then bots (B1..Bm).
+ * Each bot plays botStrategies[i] (a preset name or a custom strategy).
+ *
+ * The table starts in the betting phase: place bets with placeBet(),
+ * then dealHands() deals the round.
  */
 export const initBlackjack = (config: BlackjackConfig): BlackjackState => {
   const {
@@ -84,228 +536,838 @@ export const initBlackjack = (config: BlackjackConfig): BlackjackState => {
     numBots = 0,
     humanNames = [],
     botNames = [],
-    dealerName = "Dealer"
+    botStrategies = [],
+    dealerName = "Dealer",
+    penetration = 0.75,
+    startingBankroll = 1000,
+    minBet = 10,
+    maxBet = 500
   } = config;
+  const rules: BlackjackRules = { ...DEFAULT_BLACKJACK_RULES, ...config.rules };
 
   if (numHumans < 0 || numBots < 0) {
     throw new Error("numHumans and numBots must be >= 0");
   }
+  if (numHumans + numBots > MAX_SEATS) {
+    throw new Error(`At most ${MAX_SEATS} players can be seated`);
+  }
+  if (minBet <= 0 || maxBet < minBet) {
+    throw new Error("Table limits must satisfy 0 < minBet <= maxBet");
+  }
+  if (startingBankroll < 0) {
+    throw new Error("startingBankroll must be >= 0");
+  }
+  if (rules.maxSplitHands < 1) {
+    throw new Error("maxSplitHands must be >= 1");
+  }
 
-  const totalPlayers = numHumans + numBots;
+  const rng = config.rng ?? createRng(config.seed);
+  const shoe = createShoe({ numDecks: rules.numDecks, penetration }, rng);
 
-  let deck = shuffle(createDeck());
   const players: BlackjackPlayer[] = [];
 
   // Dealer at index 0
-  const dealerHand = [dealOne(deck), dealOne(deck)];
-  const dealerScore = handScore(dealerHand);
-  const dealerNatural = isNaturalBlackjack(dealerHand);
-  const dealerHas21 = dealerScore === 21;
-
-  players.push({
-    id: dealerName,
-    hand: dealerHand,
-    isDealer: true,
-    isBot: false,
-    standing: dealerHas21,
-    busted: false,
-    isBlackjack: dealerNatural,
-    hasTwentyOne: dealerHas21
-  });
+  players.push(makeSeat(dealerName, true, null, 0));
 
   // Humans: H1..Hn or names from humanNames[]
   for (let i = 0; i < numHumans; i++) {
-    const hand = [dealOne(deck), dealOne(deck)];
-    const score = handScore(hand);
-    const natural = isNaturalBlackjack(hand);
-    const has21 = score === 21;
-
-    const name = humanNames[i] ?? `H${i + 1}`;
-
-    players.push({
-      id: name,
-      hand,
-      isDealer: false,
-      isBot: false,
-      standing: has21,
-      busted: false,
-      isBlackjack: natural,
-      hasTwentyOne: has21
-    });
+    players.push(makeSeat(humanNames[i] ?? `H${i + 1}`, false, null, startingBankroll));
   }
 
   // Bots: B1..Bm or names from botNames[]
   for (let i = 0; i < numBots; i++) {
-    const hand = [dealOne(deck), dealOne(deck)];
-    const score = handScore(hand);
-    const natural = isNaturalBlackjack(hand);
-    const has21 = score === 21;
-
-    const name = botNames[i] ?? `B${i + 1}`;
-
-    players.push({
-      id: name,
-      hand,
-      isDealer: false,
-      isBot: true,
-      standing: has21,
-      busted: false,
-      isBlackjack: natural,
-      hasTwentyOne: has21
-    });
+    const strategy = resolveStrategy(botStrategies[i] ?? "basic");
+    players.push(makeSeat(botNames[i] ?? `B${i + 1}`, false, strategy, startingBankroll));
   }
 
   return {
-    deck,
+    seed: rng.seed,
+    shoe,
+    round: 1,
+    reshuffled: true,
+    limits: { minBet, maxBet },
+    rules,
+    startingBankroll,
     players,
-    currentPlayerIndex: totalPlayers > 0 ? 1 : 0, // first non-dealer seat
-    finished: false
+    currentPlayerIndex: 0,
+    currentHandIndex: 0,
+    holeCardHidden: false,
+    phase: "betting",
+    log: []
   };
 };
 
-// export const initBlackjack = (numHumans: number, numBots: number = 0): BlackjackState => {
-//   if (numHumans < 0 || numBots < 0) {
-//     throw new Error("numHumans and numBots must be >= 0");
-//   }
-
-//   const totalPlayers = numHumans + numBots;
-
-//   let deck = shuffle(createDeck());
-//   const players: BlackjackPlayer[] = [];
-
-//   // Dealer (index 0)
-//   const dealerHand = [dealOne(deck), dealOne(deck)];
-//   const dealerScore = handScore(dealerHand);
-//   const dealerNatural = isNaturalBlackjack(dealerHand);
-//   const dealerHas21 = dealerScore === 21;
-
-//   players.push({
-//     id: "D",
-//     hand: dealerHand,
-//     isDealer: true,
-//     isBot: false,
-//     standing: dealerHas21,
-//     busted: false,
-//     isBlackjack: dealerNatural,
-//     hasTwentyOne: dealerHas21
-//   });
-
-//   // Humans: H1..Hn
-//   for (let i = 1; i <= numHumans; i++) {
-//     const hand = [dealOne(deck), dealOne(deck)];
-//     const score = handScore(hand);
-//     const natural = isNaturalBlackjack(hand);
-//     const has21 = score === 21;
-
-//     players.push({
-//       id: `H${i}`,
-//       hand,
-//       isDealer: false,
-//       isBot: false,
-//       standing: has21,
-//       busted: false,
-//       isBlackjack: natural,
-//       hasTwentyOne: has21
-//     });
-//   }
-
-//   // Bots: B1..Bm
-//   for (let i = 1; i <= numBots; i++) {
-//     const hand = [dealOne(deck), dealOne(deck)];
-//     const score = handScore(hand);
-//     const natural = isNaturalBlackjack(hand);
-//     const has21 = score === 21;
-
-//     players.push({
-//       id: `B${i}`,
-//       hand,
-//       isDealer: false,
-//       isBot: true,
-//       standing: has21,
-//       busted: false,
-//       isBlackjack: natural,
-//       hasTwentyOne: has21
-//     });
-//   }
-
-//   return {
-//     deck,
-//     players,
-//     currentPlayerIndex: totalPlayers > 0 ? 1 : 0, // first non-dealer seat
-//     finished: false
-//   };
-// };
+/**
+ * Why a bet can't be placed, or null if it can.
+ * Frontends use this to explain a rejected bet; placeBet() itself
+ * just ignores invalid bets like hit()/stand() ignore invalid moves.
+ */
+export const betError = (
+  state: BlackjackState,
+  playerIndex: number,
+  amount: number
+): string | null => {
+  if (state.phase !== "betting") return "Bets are closed";
+
+  const p = state.players[playerIndex];
+  if (!p || p.isDealer) return "Invalid seat";
+
+  const { minBet, maxBet } = state.limits;
+  if (!Number.isFinite(amount) || amount < minBet) return `Minimum bet is ${minBet}`;
+  if (amount > maxBet) return `Maximum bet is ${maxBet}`;
+  if (amount > p.bankroll + p.bet) return "Not enough chips";
+
+  return null;
+};
 
+// Place (or replace) a seat's bet; chips move from bankroll to the table
+export const placeBet = (
+  prev: BlackjackState,
+  playerIndex: number,
+  amount: number
+): BlackjackState => {
+  if (betError(prev, playerIndex, amount) !== null) return prev;
 
-// Player hits (if not already done)
-export const hit = (prev: BlackjackState): BlackjackState => {
-  if (prev.finished) return prev;
+  const players = prev.players.map(p => ({ ...p }));
+  const p = getPlayer(players, playerIndex);
+
+  p.bankroll = p.bankroll + p.bet - amount;
+  p.bet = amount;
+
+  return withEvents({ ...prev, players }, { type: "bet", playerIndex, amount });
+};
+
+const sidePaytable = (rules: BlackjackRules, bet: BlackjackSideBet) =>
+  bet === "perfectPairs" ? rules.perfectPairs : rules.twentyOnePlusThree;
+
+// Why a side bet can't be placed (0 clears it), or null if it can
+export const sideBetError = (
+  state: BlackjackState,
+  playerIndex: number,
+  bet: BlackjackSideBet,
+  amount: number
+): string | null => {
+  if (state.phase !== "betting") return "Bets are closed";
+  if (!sidePaytable(state.rules, bet)) return "Side bet not offered at this table";
+
+  const p = state.players[playerIndex];
+  if (!p || p.isDealer) return "Invalid seat";
+
+  if (!Number.isFinite(amount) || amount < 0) return "Invalid amount";
+  if (amount > state.limits.maxBet) return `Maximum bet is ${state.limits.maxBet}`;
+  if (amount > p.bankroll + p.sideBets[bet]) return "Not enough chips";
+
+  return null;
+};
+
+// Place (or replace) a side bet; it only plays if the seat also has a main bet
+export const placeSideBet = (
+  prev: BlackjackState,
+  playerIndex: number,
+  bet: BlackjackSideBet,
+  amount: number
+): BlackjackState => {
+  if (sideBetError(prev, playerIndex, bet, amount) !== null) return prev;
 
-  const deck = [...prev.deck];
   const players = prev.players.map(p => ({ ...p }));
-  const current = getPlayer(players, prev.currentPlayerIndex);
+  const p = getPlayer(players, playerIndex);
 
-  if (isPlayerDone(current)) {
-    return prev;
+  p.bankroll = p.bankroll + p.sideBets[bet] - amount;
+  p.sideBets = { ...p.sideBets, [bet]: amount };
+
+  return withEvents({ ...prev, players }, { type: "side-bet", playerIndex, bet, amount });
+};
+
+const RED_SUITS = ["♥", "♦"];
+
+// Rank order for straights; Aces play high or low
+const rankOrder = (card: Card): number =>
+  card.rank === "A" ? 1 :
+  card.rank === "J" ? 11 :
+  card.rank === "Q" ? 12 :
+  card.rank === "K" ? 13 :
+  parseInt(card.rank, 10);
+
+const perfectPairsHand = (a: Card, b: Card): keyof PerfectPairsPaytable | null => {
+  if (a.rank !== b.rank) return null;
+  if (a.suit === b.suit) return "perfect";
+  return RED_SUITS.includes(a.suit) === RED_SUITS.includes(b.suit) ? "colored" : "mixed";
+};
+
+const twentyOnePlusThreeHand = (cards: Card[]): keyof TwentyOnePlusThreePaytable | null => {
+  const flush = cards.every(c => c.suit === cards[0]?.suit);
+  const trips = cards.every(c => c.rank === cards[0]?.rank);
+
+  const low = cards.map(rankOrder).sort((x, y) => x - y);
+  const high = low.map(r => (r === 1 ? 14 : r)).sort((x, y) => x - y);
+  const run = (r: number[]) => r[1] === (r[0] ?? 0) + 1 && r[2] === (r[0] ?? 0) + 2;
+  const straight = run(low) || run(high);
+
+  if (trips && flush) return "suitedTrips";
+  if (straight && flush) return "straightFlush";
+  if (trips) return "threeOfAKind";
+  if (straight) return "straight";
+  if (flush) return "flush";
+  return null;
+};
+
+// Winning combination (if any) and its "N to 1" odds at this table
+const sideBetPayout = (
+  bet: BlackjackSideBet,
+  [a, b, upcard]: [Card, Card, Card],
+  rules: BlackjackRules
+): { hand: BlackjackSideBetHand | null; odds: number } => {
+  if (bet === "perfectPairs") {
+    const hand = perfectPairsHand(a, b);
+    return { hand, odds: hand && rules.perfectPairs ? rules.perfectPairs[hand] : 0 };
+  }
+
+  const hand = twentyOnePlusThreeHand([a, b, upcard]);
+  return { hand, odds: hand && rules.twentyOnePlusThree ? rules.twentyOnePlusThree[hand] : 0 };
+};
+
+/**
+ * Settles a seat's side bets from its first two cards (and the dealer's
+ * upcard for 21+3) as soon as they're dealt. Winnings go straight to the
+ * bankroll; a seat that didn't get cards has its side bets returned.
+ */
+const resolveSideBets = (
+  seat: BlackjackPlayer,
+  upcard: Card | undefined,
+  rules: BlackjackRules
+): BlackjackPlayer => {
+  if (seat.isDealer) return seat;
+
+  const [a, b] = seat.hands[0]?.cards ?? [];
+  const results: BlackjackSideBetResult[] = [];
+  let bankroll = seat.bankroll;
+
+  for (const bet of ["perfectPairs", "twentyOnePlusThree"] as const) {
+    const wager = seat.sideBets[bet];
+    if (wager === 0) continue;
+
+    if (!a || !b || !upcard) {
+      bankroll += wager; // sat out: side bet comes back
+      continue;
+    }
+
+    const { hand, odds } = sideBetPayout(bet, [a, b, upcard], rules);
+    const returned = hand ? wager * (1 + odds) : 0;
+
+    bankroll += returned;
+    results.push({ bet, wager, hand, returned });
+  }
+
+  return { ...seat, bankroll, sideBetResults: results };
+};
+
+const SIDE_BET_LABELS: Record<BlackjackSideBet, string> = {
+  perfectPairs: "Perfect Pairs",
+  twentyOnePlusThree: "21+3"
+};
+
+const SIDE_BET_HAND_LABELS: Record<BlackjackSideBetHand, string> = {
+  mixed: "mixed pair",
+  colored: "colored pair",
+  perfect: "perfect pair",
+  flush: "flush",
+  straight: "straight",
+  threeOfAKind: "three of a kind",
+  straightFlush: "straight flush",
+  suitedTrips: "suited trips"
+};
+
+export const sideBetLabel = (bet: BlackjackSideBet): string => SIDE_BET_LABELS[bet];
+
+// e.g. "21+3: flush +50" or "Perfect Pairs: lost 10"
+export const describeSideBetResult = (r: BlackjackSideBetResult): string =>
+  `${SIDE_BET_LABELS[r.bet]}: ` +
+  (r.hand ? `${SIDE_BET_HAND_LABELS[r.hand]} +${r.returned - r.wager}` : `lost ${r.wager}`);
+
+const isTenValue = (card: Card | undefined): boolean =>
+  !!card && cardValue(card)[0] === 10;
+
+/**
+ * Dealer checks the hole card. With a natural the hole card is turned
+ * over and the round settles at once; otherwise play begins.
+ */
+const peekOrPlay = (prev: BlackjackState): BlackjackState => {
+  const dealer = dealerHand(prev);
+  const up = dealer.cards[0];
+  const peeks =
+    prev.rules.dealerPeek && (up?.rank === "A" || isTenValue(up));
+
+  if (peeks && dealer.status === "blackjack") {
+    return settleRound({ ...prev, holeCardHidden: false });
+  }
+
+  return { ...prev, phase: "playing" };
+};
+
+/**
+ * Closes betting and deals the round. Bots without a bet wager the table
+ * minimum if they can afford it; anyone else without a bet sits out.
+ *
+ * With an Ace up (and insurance offered) the round opens in the insurance
+ * phase; otherwise the dealer peeks and play begins.
+ */
+export const dealHands = (prev: BlackjackState): BlackjackState => {
+  if (prev.phase !== "betting") return prev;
+
+  let s = prev;
+  s.players.forEach((p, idx) => {
+    if (p.isBot && p.bet === 0) {
+      const view = { ...shoeView(s), bankroll: p.bankroll, limits: s.limits };
+      s = placeBet(s, idx, p.strategy?.bet?.(view) ?? s.limits.minBet);
+    }
+  });
+
+  const shoe = cloneShoe(s.shoe);
+  const dealtSeats = s.players.map(p => dealSeat(p, shoe));
+  const upcard = dealtSeats[0]?.hands[0]?.cards[0];
+  const players = dealtSeats.map(p => resolveSideBets(p, upcard, s.rules));
+
+  const hands = players.flatMap((p, playerIndex) =>
+    p.hands.map(h => ({ playerIndex, cards: h.cards }))
+  );
+  const dealt = withEvents({
+    ...s,
+    shoe,
+    players,
+    currentPlayerIndex: players.length > 1 ? 1 : 0, // first non-dealer seat
+    currentHandIndex: 0,
+    holeCardHidden: true,
+    phase: "insurance"
+  }, { type: "deal", hands });
+
+  const anyoneInsurable = players.some(p => !p.isDealer && p.hands.length > 0);
+  if (dealerUpcard(dealt)?.rank === "A" && s.rules.offerInsurance && anyoneInsurable) {
+    return dealt;
+  }
+
+  return peekOrPlay(dealt);
+};
+
+/**
+ * Insurance / even money offer for a seat, while the dealer shows an Ace.
+ * A natural is offered even money (paid 1:1 now, no extra chips); any
+ * other hand may insure for half its bet, paying 2:1 on a dealer natural.
+ */
+export const canTakeInsurance = (state: BlackjackState, playerIndex: number): boolean => {
+  if (state.phase !== "insurance") return false;
+
+  const p = state.players[playerIndex];
+  const hand = p?.hands[0];
+  if (!p || p.isDealer || !hand || p.insuranceDecided) return false;
+
+  return hand.status === "blackjack" || p.bankroll >= hand.bet / 2;
+};
+
+export const takeInsurance = (prev: BlackjackState, playerIndex: number): BlackjackState => {
+  if (!canTakeInsurance(prev, playerIndex)) return prev;
+
+  const players = clonePlayers(prev.players);
+  const p = getPlayer(players, playerIndex);
+  const hand = getHand(p, 0);
+
+  if (hand.status === "blackjack") {
+    setStatus(hand, "even-money");
+  } else {
+    p.insurance = hand.bet / 2;
+    p.bankroll -= p.insurance;
   }
+  p.insuranceDecided = true;
+
+  return withEvents({ ...prev, players }, { type: "insurance", playerIndex, taken: true });
+};
 
-  current.hand = [...current.hand, dealOne(deck)];
-  current.busted = isBusted(current.hand);
+export const declineInsurance = (prev: BlackjackState, playerIndex: number): BlackjackState => {
+  if (prev.phase !== "insurance") return prev;
 
-  if (!current.busted) {
-    const score = handScore(current.hand);
-    const natural = isNaturalBlackjack(current.hand);
+  const p = prev.players[playerIndex];
+  if (!p || p.isDealer || p.insuranceDecided) return prev;
 
-    current.isBlackjack = current.isBlackjack || natural;
-    current.hasTwentyOne = score === 21;
+  const players = prev.players.map(q => ({ ...q }));
+  getPlayer(players, playerIndex).insuranceDecided = true;
 
-    if (current.hasTwentyOne) {
-      current.standing = true;
+  return withEvents({ ...prev, players }, { type: "insurance", playerIndex, taken: false });
+};
+
+/**
+ * Closes the insurance offer: bots whose strategy wants insurance take it,
+ * anyone else who hasn't answered declines, then the dealer peeks for
+ * blackjack.
+ */
+export const closeInsurance = (prev: BlackjackState): BlackjackState => {
+  if (prev.phase !== "insurance") return prev;
+
+  let s = prev;
+  s.players.forEach((p, idx) => {
+    const hand = p.hands[0];
+    if (p.strategy?.insurance && hand && p.strategy.insurance(shoeView(s), hand)) {
+      s = takeInsurance(s, idx);
     }
+  });
+
+  const players = s.players.map(p =>
+    p.isDealer || p.hands.length === 0 ? p : { ...p, insuranceDecided: true }
+  );
+
+  return peekOrPlay(withEvents({ ...s, players }, { type: "insurance-closed" }));
+};
+
+/**
+ * Starts the next round at the same table: every card in play goes to the
+ * discards, the shoe is reshuffled if the cut card has come out, and the
+ * table returns to betting with each bankroll carried over. Returns the
+ * table unchanged until the round is finished, so no open bet is lost.
+ */
+export const nextRound = (prev: BlackjackState): BlackjackState => {
+  if (prev.phase !== "finished") return prev;
+
+  const inPlay = prev.players.flatMap(p => p.hands.flatMap(h => h.cards));
+  let shoe = discardToShoe(prev.shoe, inPlay);
+
+  const reshuffled = needsReshuffle(shoe);
+  shoe = reshuffled ? reshuffleShoe(shoe) : cloneShoe(shoe);
+
+  return {
+    ...prev,
+    shoe,
+    round: prev.round + 1,
+    reshuffled,
+    players: prev.players.map(resetSeat),
+    currentPlayerIndex: 0,
+    currentHandIndex: 0,
+    holeCardHidden: false,
+    phase: "betting",
+    log: [{ type: "round", round: prev.round + 1, reshuffled }]
+  };
+};
+
+// Most non-dealer seats at one table
+export const MAX_SEATS = 7;
+
+export interface BlackjackSeatConfig {
+  name?: string;       // seat id; made unique if already taken (default H<n> / B<n>)
+  strategy?: BlackjackStrategyName | BlackjackStrategy; // set = bot seat
+  bankroll?: number;   // buy-in (default: the table's starting bankroll)
+}
+
+/**
+ * Sits a new player down between rounds (betting phase only). Returns the
+ * table unchanged if it's mid-round or full. The new id avoids everyone
+ * seated and `reservedIds` (e.g. players who left but still have stats).
+ */
+export const joinTable = (
+  prev: BlackjackState,
+  seat: BlackjackSeatConfig,
+  reservedIds: Iterable<string> = []
+): BlackjackState => {
+  if (prev.phase !== "betting" || prev.players.length - 1 >= MAX_SEATS) return prev;
+
+  const taken = new Set([...prev.players.map(p => p.id), ...reservedIds]);
+  const isBot = seat.strategy !== undefined;
+  let base = seat.name?.trim() || "";
+  if (!base) {
+    const prefix = isBot ? "B" : "H";
+    let n = prev.players.filter(p => !p.isDealer && p.isBot === isBot).length + 1;
+    while (taken.has(`${prefix}${n}`)) n++;
+    base = `${prefix}${n}`;
+  }
+
+  let id = base;
+  for (let n = 2; taken.has(id); n++) {
+    id = `${base} (${n})`;
+  }
+
+  const strategy = seat.strategy === undefined ? null : resolveStrategy(seat.strategy);
+  const player = makeSeat(id, false, strategy, seat.bankroll ?? prev.startingBankroll);
+
+  return withEvents(
+    { ...prev, players: [...prev.players, player] },
+    { type: "join", playerId: id, seat }
+  );
+};
+
+// A player leaves between rounds, taking any bet they'd placed back with them
+export const leaveTable = (prev: BlackjackState, playerId: string): BlackjackState => {
+  if (prev.phase !== "betting") return prev;
+
+  const idx = prev.players.findIndex(p => p.id === playerId);
+  if (idx <= 0) return prev; // unknown seat, or the dealer
+
+  return withEvents(
+    { ...prev, players: prev.players.filter((_, i) => i !== idx) },
+    { type: "leave", playerId }
+  );
+};
+
+// One hand's result against the dealer. Pure: the same finished table
+// always gives the same answer, so frontends can call it after the fact.
+const resultForHand = (
+  hand: BlackjackHand,
+  dealer: BlackjackHand,
+  rules: BlackjackRules
+): BlackjackHandResult => {
+  const busted = isBusted(hand.cards);
+  const dealerBusted = isBusted(dealer.cards);
+  const score = busted ? 0 : handScore(hand.cards);
+  const dealerScore = dealerBusted ? 0 : handScore(dealer.cards);
+
+  const result = (
+    outcome: BlackjackOutcome,
+    reason: BlackjackResultReason,
+    payout: number
+  ): BlackjackHandResult => ({ outcome, reason, payout, score, bet: hand.bet });
+
+  const natural = 1 + payoutRatio(rules.blackjackPayout);
+
+  const handNatural = hand.status === "blackjack";
+  const dealerNatural = dealer.status === "blackjack";
+
+  if (hand.status === "even-money") return result("win", "even-money", 2);
+
+  // Surrender only saves half the bet when the dealer has no natural
+  // (with peek on, a dealer natural ends the round before anyone acts)
+  if (hand.status === "surrendered") {
+    return dealerNatural
+      ? result("lose", "dealer-natural", 0)
+      : result("surrender", "surrender", 0.5);
+  }
+
+  if (busted) return result("lose", dealerBusted ? "both-bust" : "bust", 0);
+  if (dealerBusted) {
+    return handNatural
+      ? result("blackjack", "natural", natural)
+      : result("win", "dealer-bust", 2);
+  }
+  if (handNatural && !dealerNatural) return result("blackjack", "natural", natural);
+  if (dealerNatural && !handNatural) return result("lose", "dealer-natural", 0);
+  if (score > dealerScore) return result("win", "higher-score", 2);
+  if (score < dealerScore) return result("lose", "lower-score", 0);
+
+  // Two naturals always push; otherwise a house rule may break a 21–21 tie
+  if (score === 21 && !handNatural && rules.twentyOneBeatsEqualScore) {
+    return result("win", "twenty-one-tie", 2);
+  }
+  return result("push", "equal-score", 1);
+};
+
+/**
+ * Settles every seat against the dealer's hand: one typed result per hand
+ * plus each seat's insurance and net. Doesn't touch the state; the engine
+ * applies it when the round closes, and frontends / simulators can call
+ * it on a finished table to explain what happened.
+ */
+export const settleBlackjackRound = (state: BlackjackState): BlackjackRoundResult => {
+  const dealer = dealerHand(state);
+
+  const seats = state.players.flatMap((p, playerIndex): BlackjackSeatResult[] => {
+    if (p.isDealer || p.hands.length === 0) return [];
+
+    const hands = p.hands.map(h => resultForHand(h, dealer, state.rules));
+    const insurancePaid = dealer.status === "blackjack" ? p.insurance * 3 : 0;
+
+    const wagered = p.insurance + hands.reduce((sum, r) => sum + r.bet, 0);
+    const returned = insurancePaid + hands.reduce((sum, r) => sum + r.bet * r.payout, 0);
+    const sideBetNet = p.sideBetResults.reduce((sum, r) => sum + r.returned - r.wager, 0);
+
+    return [{
+      playerIndex,
+      hands,
+      insurance: p.insurance,
+      insurancePaid,
+      returned,
+      sideBetNet,
+      net: returned - wagered + sideBetNet
+    }];
+  });
+
+  return {
+    dealerScore: isBusted(dealer.cards) ? 0 : handScore(dealer.cards),
+    dealerBusted: isBusted(dealer.cards),
+    dealerBlackjack: dealer.status === "blackjack",
+    seats
+  };
+};
+
+// Table-style label for a hand result, e.g. "WIN (dealer bust)"
+export const describeHandResult = (result: BlackjackHandResult): string => {
+  switch (result.reason) {
+    case "even-money": return "EVEN MONEY";
+    case "surrender": return "SURRENDER (half bet returned)";
+    case "both-bust": return "LOSE (both bust – house wins)";
+    case "bust": return "LOSE (bust)";
+    case "dealer-bust": return "WIN (dealer bust)";
+    case "natural": return "WIN (natural blackjack)";
+    case "dealer-natural": return "LOSE (dealer blackjack)";
+    case "higher-score": return "WIN";
+    case "lower-score": return "LOSE";
+    case "twenty-one-tie": return "WIN (21 beats equal score)";
+    case "equal-score": return "PUSH";
+  }
+};
+
+// Pay every hand (and insurance) on the table, turn the hole card over
+// and close the round
+const settleRound = (prev: BlackjackState): BlackjackState => {
+  const result = settleBlackjackRound(prev);
+  const { seats } = result;
+
+  const players = prev.players.map((p, idx) => {
+    const seat = seats.find(r => r.playerIndex === idx);
+    if (!seat) return { ...p, net: 0 };
+
+    return {
+      ...p,
+      bankroll: p.bankroll + seat.returned,
+      net: seat.net
+    };
+  });
+
+  return withEvents(
+    { ...prev, players, holeCardHidden: false, phase: "finished" },
+    { type: "settle", result }
+  );
+};
+
+// Shared setup for player actions: cloned table plus the acting seat/hand
+const beginAction = (prev: BlackjackState) => {
+  const shoe = cloneShoe(prev.shoe);
+  const players = clonePlayers(prev.players);
+  const player = getPlayer(players, prev.currentPlayerIndex);
+  const hand = player.hands[prev.currentHandIndex];
+  return { shoe, players, player, hand };
+};
+
+// A hand that busts or reaches 21 stops drawing
+const addCard = (hand: BlackjackHand, card: Card): void => {
+  hand.cards = [...hand.cards, card];
+
+  if (isBusted(hand.cards)) {
+    setStatus(hand, "busted");
+  } else if (handScore(hand.cards) === 21) {
+    setStatus(hand, "stood");
+  }
+};
+
+// Split aces that can't be hit or doubled (they may still stand, or split
+// again under resplitAces)
+const isLockedSplitAce = (hand: BlackjackHand, rules: BlackjackRules): boolean =>
+  hand.fromSplit && hand.cards[0]?.rank === "A" && !rules.hitSplitAces;
+
+// Logged after the card that busts a hand
+const bustEvents = (hand: BlackjackHand, playerIndex: number, handIndex: number): BlackjackEvent[] =>
+  hand.status === "busted" ? [{ type: "bust", playerIndex, handIndex }] : [];
+
+// Player hits (if not already done)
+export const hit = (prev: BlackjackState): BlackjackState => {
+  if (prev.phase !== "playing") return prev;
+
+  const { shoe, players, player, hand } = beginAction(prev);
+
+  if (!hand || isHandDone(hand)) {
+    return prev;
   }
+  if (!player.isDealer && isLockedSplitAce(hand, prev.rules)) {
+    return prev;
+  }
+
+  const card = drawFromShoe(shoe);
+  addCard(hand, card);
 
-  return { ...prev, deck, players };
+  const playerIndex = prev.currentPlayerIndex;
+  const handIndex = prev.currentHandIndex;
+  const drew: BlackjackEvent = player.isDealer
+    ? { type: "dealer-draw", card }
+    : { type: "hit", playerIndex, handIndex, card };
+
+  return withEvents({ ...prev, shoe, players }, drew, ...bustEvents(hand, playerIndex, handIndex));
 };
 
 // Player stands (if not already done)
 export const stand = (prev: BlackjackState): BlackjackState => {
-  if (prev.finished) return prev;
+  if (prev.phase !== "playing") return prev;
 
-  const players = prev.players.map(p => ({ ...p }));
-  const current = getPlayer(players, prev.currentPlayerIndex);
+  const players = clonePlayers(prev.players);
+  const hand = getPlayer(players, prev.currentPlayerIndex).hands[prev.currentHandIndex];
 
-  if (isPlayerDone(current)) {
+  if (!hand || isHandDone(hand)) {
     return prev;
   }
 
-  current.standing = true;
+  setStatus(hand, "stood");
+
+  return withEvents({ ...prev, players }, {
+    type: "stand",
+    playerIndex: prev.currentPlayerIndex,
+    handIndex: prev.currentHandIndex
+  });
+};
+
+// Double down on a two-card hand the seat can afford to match, within the
+// table's doubleOn / doubleAfterSplit rules
+export const canDouble = (state: BlackjackState): boolean => {
+  if (state.phase !== "playing") return false;
+
+  const player = state.players[state.currentPlayerIndex];
+  const hand = currentHand(state);
+  if (!player || player.isDealer || !hand || isHandDone(hand)) return false;
+  if (hand.cards.length !== 2) return false;
+  if (hand.fromSplit && !state.rules.doubleAfterSplit) return false;
+  if (isLockedSplitAce(hand, state.rules)) return false;
 
-  return { ...prev, players };
+  const total = handScore(hand.cards);
+  if (state.rules.doubleOn === "9-11" && (total < 9 || total > 11)) return false;
+  if (state.rules.doubleOn === "10-11" && (total < 10 || total > 11)) return false;
+
+  return player.bankroll >= hand.bet;
 };
 
+// Double the bet, take exactly one card, then stand
+export const doubleDown = (prev: BlackjackState): BlackjackState => {
+  if (!canDouble(prev)) return prev;
+
+  const { shoe, players, player, hand } = beginAction(prev);
+  if (!hand) return prev;
+
+  player.bankroll -= hand.bet;
+  hand.bet *= 2;
+  const card = drawFromShoe(shoe);
+  hand.cards = [...hand.cards, card];
+  setStatus(hand, isBusted(hand.cards) ? "busted" : "doubled");
+
+  const playerIndex = prev.currentPlayerIndex;
+  const handIndex = prev.currentHandIndex;
+
+  return withEvents(
+    { ...prev, shoe, players },
+    { type: "double", playerIndex, handIndex, card },
+    ...bustEvents(hand, playerIndex, handIndex)
+  );
+};
+
+// Pairs of equal value (e.g. 8-8, K-10) may split up to maxSplitHands
+export const canSplit = (state: BlackjackState): boolean => {
+  if (state.phase !== "playing") return false;
+
+  const player = state.players[state.currentPlayerIndex];
+  const hand = currentHand(state);
+  if (!player || player.isDealer || !hand || isHandDone(hand)) return false;
+
+  const value = evaluateHand(hand.cards);
+  if (!value.pair) return false;
+
+  const rules = state.rules;
+  if (player.hands.length >= rules.maxSplitHands) return false;
+  if (value.pairRank === "A" && hand.fromSplit && !rules.resplitAces) return false;
+
+  return player.bankroll >= hand.bet;
+};
+
+/**
+ * Splits the current pair into two hands, each with a matching bet and a
+ * second card. Split aces get one card each and stand unless hitSplitAces,
+ * or unless the card is another ace that resplitAces lets them split.
+ */
+export const split = (prev: BlackjackState): BlackjackState => {
+  if (!canSplit(prev)) return prev;
+
+  const { shoe, players, player, hand } = beginAction(prev);
+  if (!hand) return prev;
+
+  const [first, second] = hand.cards as [Card, Card];
+  const cards: [Card, Card] = [drawFromShoe(shoe), drawFromShoe(shoe)];
+  const left = makeHand([first, cards[0]], hand.bet, true);
+  const right = makeHand([second, cards[1]], hand.bet, true);
+
+  player.bankroll -= hand.bet;
+  player.hands.splice(prev.currentHandIndex, 1, left, right);
+
+  const { rules } = prev;
+  const canResplit = (h: BlackjackHand) =>
+    rules.resplitAces &&
+    player.hands.length < rules.maxSplitHands &&
+    h.cards[1]?.rank === "A";
+
+  for (const h of [left, right]) {
+    if (h.status === "playing" && isLockedSplitAce(h, rules) && !canResplit(h)) {
+      setStatus(h, "stood");
+    }
+  }
+
+  return withEvents({ ...prev, shoe, players }, {
+    type: "split",
+    playerIndex: prev.currentPlayerIndex,
+    handIndex: prev.currentHandIndex,
+    cards
+  });
+};
+
+// Late surrender: only as the first decision on the original two cards
+export const canSurrender = (state: BlackjackState): boolean => {
+  if (state.phase !== "playing" || !state.rules.lateSurrender) return false;
+
+  const player = state.players[state.currentPlayerIndex];
+  const hand = currentHand(state);
+  if (!player || player.isDealer || !hand || isHandDone(hand)) return false;
+
+  return player.hands.length === 1 && !hand.fromSplit && hand.cards.length === 2;
+};
+
+// Give up the hand; half the bet comes back at settlement
+export const surrender = (prev: BlackjackState): BlackjackState => {
+  if (!canSurrender(prev)) return prev;
+
+  const players = clonePlayers(prev.players);
+  const hand = getHand(getPlayer(players, prev.currentPlayerIndex), prev.currentHandIndex);
+
+  setStatus(hand, "surrendered");
+
+  return withEvents({ ...prev, players }, {
+    type: "surrender",
+    playerIndex: prev.currentPlayerIndex,
+    handIndex: prev.currentHandIndex
+  });
+};
+
+// Moves to the next unfinished hand: the current seat's remaining split
+// hands first, then later seats, then the dealer.
 export const nextPlayer = (prev: BlackjackState): BlackjackState => {
-  if (prev.finished) return prev;
+  if (prev.phase !== "playing") return prev;
 
   const players = prev.players;
   let idx = prev.currentPlayerIndex;
+  let handIdx = prev.currentHandIndex + 1;
 
   while (true) {
-    idx++;
+    const p = players[idx];
 
-    if (idx >= players.length) {
-      // we've looped past last seat → dealer or game over
+    if (!p) {
+      // we've looped past last seat → dealer or round over
       if (prev.currentPlayerIndex === 0) {
-        return { ...prev, finished: true };
+        return settleRound(prev);
       }
-      return { ...prev, currentPlayerIndex: 0 }; // dealer's turn
+      // dealer's turn
+      return withEvents(
+        { ...prev, currentPlayerIndex: 0, currentHandIndex: 0 },
+        { type: "turn", playerIndex: 0, handIndex: 0 }
+      );
     }
 
-    const p = players[idx];
-    if (!p) continue;
-
-    if (!isPlayerDone(p)) {
-      return { ...prev, currentPlayerIndex: idx };
+    for (; handIdx < p.hands.length; handIdx++) {
+      const h = p.hands[handIdx];
+      if (h && !isHandDone(h)) {
+        return withEvents(
+          { ...prev, currentPlayerIndex: idx, currentHandIndex: handIdx },
+          { type: "turn", playerIndex: idx, handIndex: handIdx }
+        );
+      }
     }
+
+    idx++;
+    handIdx = 0;
   }
 };
 
@@ -313,51 +1375,587 @@ export const allNonDealerDone = (state: BlackjackState): boolean => {
   return state.players.slice(1).every(isPlayerDone);
 };
 
-// Dealer AI: hit until >= 17, then stand / lock
+const revealHoleCard = (state: BlackjackState): BlackjackState =>
+  withEvents(
+    { ...state, currentPlayerIndex: 0, currentHandIndex: 0, holeCardHidden: false },
+    { type: "reveal" }
+  );
+
+// Dealer AI: hit until >= 17 (and on soft 17 under H17), then stand /
+// lock, then settle all bets
 export const dealerAutoPlay = (state: BlackjackState): BlackjackState => {
-  let s: BlackjackState = state;
-  let dealer = getPlayer(s.players, 0);
+  if (state.phase !== "playing") return state;
 
-  if (isPlayerDone(dealer)) {
-    return { ...s, finished: true };
+  // Dealer's turn: the hole card is turned over first
+  let s = revealHoleCard(state);
+  let dealer = dealerHand(s);
+
+  if (isHandDone(dealer)) {
+    return settleRound(s);
   }
 
-  while (!dealer.busted && handScore(dealer.hand) < 17) {
+  const mustHit = (cards: Card[]): boolean => {
+    const { total, soft } = evaluateHand(cards);
+    return total < 17 || (total === 17 && soft && s.rules.dealerHitsSoft17);
+  };
+
+  while (!isHandDone(dealer) && mustHit(dealer.cards)) {
     s = hit(s);
-    dealer = getPlayer(s.players, 0);
+    dealer = dealerHand(s);
   }
 
-  if (!dealer.busted) {
-    const score = handScore(dealer.hand);
-    dealer = getPlayer(s.players, 0);
-    dealer.hasTwentyOne = dealer.hasTwentyOne || score === 21;
-    dealer.isBlackjack = dealer.isBlackjack || isNaturalBlackjack(dealer.hand);
-    dealer.standing = true;
+  s = stand(s);
+
+  return settleRound(s);
+};
+
+// Every card shown since the last shuffle: discards plus what's face up now
+export const seenCards = (state: BlackjackState): Card[] => [
+  ...state.shoe.discards,
+  ...state.players.flatMap(p =>
+    p.isDealer ? visibleDealerCards(state) : p.hands.flatMap(h => h.cards)
+  )
+];
+
+export const shoeView = (state: BlackjackState): BlackjackShoeView => {
+  const holeCard = state.holeCardHidden ? 1 : 0;
+  return {
+    rules: state.rules,
+    seenCards: seenCards(state),
+    decksRemaining: (state.shoe.cards.length + holeCard) / 52
+  };
+};
+
+interface CountingSystem {
+  label: string;
+  tags: Record<number, number>; // tag by card value, 2..10 and Ace = 11
+  level: number;                // largest tag; true counts are scaled down by it
+  imbalance: number;            // net tag sum per deck (0 = balanced)
+}
+
+const COUNTING_SYSTEMS: Record<BlackjackCountingSystemName, CountingSystem> = {
+  "hi-lo": {
+    label: "Hi-Lo",
+    tags: { 2: 1, 3: 1, 4: 1, 5: 1, 6: 1, 7: 0, 8: 0, 9: 0, 10: -1, 11: -1 },
+    level: 1,
+    imbalance: 0
+  },
+  ko: {
+    label: "KO",
+    tags: { 2: 1, 3: 1, 4: 1, 5: 1, 6: 1, 7: 1, 8: 0, 9: 0, 10: -1, 11: -1 },
+    level: 1,
+    imbalance: 4
+  },
+  "omega-ii": {
+    label: "Omega II",
+    tags: { 2: 1, 3: 1, 4: 2, 5: 2, 6: 2, 7: 1, 8: 0, 9: -1, 10: -2, 11: 0 },
+    level: 2,
+    imbalance: 0
   }
+};
 
-  return { ...s, finished: true };
+/**
+ * Running and true count over the given cards. Unbalanced systems (KO)
+ * start from the usual initial running count, 4 - 4 × decks; the true
+ * count removes that drift so every system can share Hi-Lo indices.
+ */
+export const countCards = (
+  system: BlackjackCountingSystemName,
+  view: BlackjackShoeView
+): BlackjackCount => {
+  const { tags, level, imbalance } = COUNTING_SYSTEMS[system];
+  const tagged = view.seenCards.reduce((sum, c) => sum + (tags[upcardValue(c)] ?? 0), 0);
+
+  const decksSeen = view.seenCards.length / 52;
+  const decksRemaining = Math.max(view.decksRemaining, 0.25); // don't blow up on the last cards
+  const initial = imbalance ? imbalance - imbalance * view.rules.numDecks : 0;
+
+  return {
+    system,
+    runningCount: initial + tagged,
+    trueCount: (tagged - imbalance * decksSeen) / decksRemaining / level,
+    decksRemaining: view.decksRemaining
+  };
+};
+
+export const countingSystemLabel = (system: BlackjackCountingSystemName): string =>
+  COUNTING_SYSTEMS[system].label;
+
+// Upcard as a chart column: 2..10, Ace = 11
+const upcardValue = (card: Card): number => cardValue(card)[1] ?? cardValue(card)[0] ?? 0;
+
+/*
+ * Basic strategy charts for multi-deck S17 games, one character per
+ * dealer upcard 2 3 4 5 6 7 8 9 10 A:
+ *   H hit, S stand, D double (else hit), B double (else stand),
+ *   P split, Q split if double after split is allowed (else hit),
+ *   R surrender (else hit), V surrender (else stand), - not a split
+ */
+const HARD_CHART: Record<number, string> = {
+  8: "HHHHHHHHHH",
+  9: "HDDDDHHHHH",
+  10: "DDDDDDDDHH",
+  11: "DDDDDDDDDH",
+  12: "HHSSSHHHHH",
+  13: "SSSSSHHHHH",
+  14: "SSSSSHHHHH",
+  15: "SSSSSHHHRH",
+  16: "SSSSSHHRRR",
+  17: "SSSSSSSSSS"
+};
+
+// Soft totals 13 (A2) .. 20 (A9)
+const SOFT_CHART: Record<number, string> = {
+  13: "HHHDDHHHHH",
+  14: "HHHDDHHHHH",
+  15: "HHDDDHHHHH",
+  16: "HHDDDHHHHH",
+  17: "HDDDDHHHHH",
+  18: "SBBBBSSHHH",
+  19: "SSSSSSSSSS",
+  20: "SSSSSSSSSS"
+};
+
+// Pairs by rank ("10" covers every ten-value pair)
+const PAIR_CHART: Partial<Record<Rank, string>> = {
+  "2": "QQPPPPHHHH",
+  "3": "QQPPPPHHHH",
+  "4": "HHHQQHHHHH",
+  "5": "----------",
+  "6": "QPPPPHHHHH",
+  "7": "PPPPPPHHHH",
+  "8": "PPPPPPPPPP",
+  "9": "PPPPPSPPSS",
+  "10": "----------",
+  A: "PPPPPPPPPP"
+};
+
+const chartCell = (row: string | undefined, up: number): string => row?.[up - 2] ?? "H";
+
+// H17 changes a handful of cells versus the S17 chart
+const h17Cell = (kind: "hard" | "soft", total: number, up: number): string | null => {
+  if (kind === "hard" && total === 11 && up === 11) return "D";
+  if (kind === "hard" && total === 15 && up === 11) return "R";
+  if (kind === "hard" && total === 17 && up === 11) return "V";
+  if (kind === "soft" && total === 18 && up === 2) return "B";
+  if (kind === "soft" && total === 19 && up === 6) return "B";
+  return null;
+};
+
+// Chart lookup for a hand's total, ignoring pairs
+const totalCell = (hand: Card[], up: number, rules: BlackjackRules): string => {
+  const { total, soft } = evaluateHand(hand);
+  const kind = soft ? "soft" : "hard";
+
+  const h17 = rules.dealerHitsSoft17 ? h17Cell(kind, total, up) : null;
+  if (h17) return h17;
+
+  if (kind === "soft") {
+    if (total >= 19) return "S";
+    return total < 13 ? "H" : chartCell(SOFT_CHART[total], up); // A-A that can't split
+  }
+  if (total >= 17) return "S";
+  return chartCell(HARD_CHART[Math.max(8, total)], up);
+};
+
+// Turn a chart cell into an action the table actually allows
+const cellToAction = (cell: string, d: BlackjackDecision): BlackjackAction => {
+  switch (cell) {
+    case "D": return d.canDouble ? "double" : "hit";
+    case "B": return d.canDouble ? "double" : "stand";
+    case "R": return d.canSurrender ? "surrender" : "hit";
+    case "V": return d.canSurrender ? "surrender" : "stand";
+    case "S": return "stand";
+    default: return "hit";
+  }
+};
+
+const basicStrategy: BlackjackStrategy = {
+  name: "Basic strategy",
+  decide: d => {
+    const up = upcardValue(d.dealerUpcard);
+    const { pairRank } = evaluateHand(d.hand.cards);
+
+    if (d.canSplit && pairRank) {
+      const pairCell = chartCell(PAIR_CHART[pairRank], up);
+      if (pairCell === "P" || (pairCell === "Q" && d.rules.doubleAfterSplit)) {
+        return "split";
+      }
+    }
+
+    return cellToAction(totalCell(d.hand.cards, up, d.rules), d);
+  }
+};
+
+// The original table bot: hit below 16, otherwise stand
+const naiveStrategy: BlackjackStrategy = {
+  name: "Naive (hit < 16)",
+  decide: d => (handScore(d.hand.cards) < 16 ? "hit" : "stand")
+};
+
+// Illustrious 18 (Hi-Lo, multi-deck S17): at or above the index play
+// `atOrAbove`, below it play `below`. Insurance (index +3) lives in
+// createCountingStrategy's insurance().
+const ILLUSTRIOUS_18: {
+  total: number;
+  up: number;
+  index: number;
+  atOrAbove: BlackjackAction;
+  below: BlackjackAction;
+}[] = [
+  { total: 16, up: 10, index: 0, atOrAbove: "stand", below: "hit" },
+  { total: 15, up: 10, index: 4, atOrAbove: "stand", below: "hit" },
+  { total: 10, up: 10, index: 4, atOrAbove: "double", below: "hit" },
+  { total: 12, up: 3, index: 2, atOrAbove: "stand", below: "hit" },
+  { total: 12, up: 2, index: 3, atOrAbove: "stand", below: "hit" },
+  { total: 11, up: 11, index: 1, atOrAbove: "double", below: "hit" },
+  { total: 9, up: 2, index: 1, atOrAbove: "double", below: "hit" },
+  { total: 10, up: 11, index: 4, atOrAbove: "double", below: "hit" },
+  { total: 9, up: 7, index: 3, atOrAbove: "double", below: "hit" },
+  { total: 16, up: 9, index: 5, atOrAbove: "stand", below: "hit" },
+  { total: 13, up: 2, index: -1, atOrAbove: "stand", below: "hit" },
+  { total: 12, up: 4, index: 0, atOrAbove: "stand", below: "hit" },
+  { total: 12, up: 5, index: -2, atOrAbove: "stand", below: "hit" },
+  { total: 12, up: 6, index: -1, atOrAbove: "stand", below: "hit" },
+  { total: 13, up: 3, index: -2, atOrAbove: "stand", below: "hit" }
+];
+
+// Splitting tens: 10-10 vs 5 at +5, vs 6 at +4
+const TEN_SPLIT_INDEX: Record<number, number> = { 5: 5, 6: 4 };
+
+export interface CountingStrategyOptions {
+  system?: BlackjackCountingSystemName; // default "hi-lo"
+  deviations?: boolean;                 // play the Illustrious 18 (default true)
+  spread?: number[];                    // bet units by true count 1, 2, 3, ... (default [1, 2, 4, 6, 8])
+}
+
+/**
+ * Basic strategy plus a count: deviates from the chart at the Illustrious
+ * 18 indices, insures at true count +3 and spreads its bet with the count.
+ */
+export const createCountingStrategy = (
+  options: CountingStrategyOptions = {}
+): BlackjackStrategy => {
+  const { system = "hi-lo", deviations = true, spread = [1, 2, 4, 6, 8] } = options;
+
+  return {
+    name: `Counter (${COUNTING_SYSTEMS[system].label})`,
+
+    decide: d => {
+      const basic = basicStrategy.decide(d);
+      if (!deviations || basic === "surrender") return basic;
+
+      const tc = countCards(system, d).trueCount;
+      const up = upcardValue(d.dealerUpcard);
+      const { total, soft, pairRank } = evaluateHand(d.hand.cards);
+
+      const tenSplit = TEN_SPLIT_INDEX[up];
+      if (d.canSplit && pairRank === "10" && tenSplit !== undefined) {
+        return tc >= tenSplit ? "split" : basic;
+      }
+      if (basic === "split" || soft) return basic;
+
+      const play = ILLUSTRIOUS_18.find(p => p.total === total && p.up === up);
+      if (!play) return basic;
+
+      const action = tc >= play.index ? play.atOrAbove : play.below;
+      return action === "double" && !d.canDouble ? "hit" : action;
+    },
+
+    bet: d => {
+      const tc = Math.floor(countCards(system, d).trueCount);
+      const units = tc < 1 ? 1 : spread[Math.min(tc, spread.length) - 1] ?? 1;
+      const amount = units * d.limits.minBet;
+      return Math.max(d.limits.minBet, Math.min(amount, d.limits.maxBet, d.bankroll));
+    },
+
+    insurance: view => countCards(system, view).trueCount >= 3
+  };
 };
 
-// Basic bot AI: hit < 16, otherwise stand, until done
+export const BLACKJACK_STRATEGIES: Record<BlackjackStrategyName, BlackjackStrategy> = {
+  basic: basicStrategy,
+  naive: naiveStrategy,
+  "hi-lo": createCountingStrategy({ system: "hi-lo" }),
+  ko: createCountingStrategy({ system: "ko" }),
+  "omega-ii": createCountingStrategy({ system: "omega-ii" })
+};
+
+// What the acting seat sees right now, or null if nothing needs deciding
+export const decisionFor = (state: BlackjackState): BlackjackDecision | null => {
+  const player = state.players[state.currentPlayerIndex];
+  const hand = currentHand(state);
+  const up = dealerUpcard(state);
+  if (state.phase !== "playing" || !player || player.isDealer || !hand || !up) return null;
+  if (isHandDone(hand)) return null;
+
+  return {
+    hand,
+    hands: player.hands,
+    dealerUpcard: up,
+    ...shoeView(state),
+    canDouble: canDouble(state),
+    canSplit: canSplit(state),
+    canSurrender: canSurrender(state)
+  };
+};
+
+// Apply one strategy action to the table (illegal actions are ignored)
+export const applyBlackjackAction = (
+  state: BlackjackState,
+  action: BlackjackAction
+): BlackjackState => {
+  switch (action) {
+    case "hit": return hit(state);
+    case "stand": return stand(state);
+    case "double": return doubleDown(state);
+    case "split": return split(state);
+    case "surrender": return surrender(state);
+  }
+};
+
+// Bot AI: ask the seat's strategy for moves until the current hand is done.
+// A move the table rejects counts as standing, so a bad strategy can't stall.
 export const botAutoPlay = (state: BlackjackState): BlackjackState => {
   let s: BlackjackState = state;
-  let current = getPlayer(s.players, s.currentPlayerIndex);
+  const bot = getPlayer(s.players, s.currentPlayerIndex);
 
-  if (!current.isBot || current.isDealer) {
+  if (!bot.isBot || bot.isDealer || !bot.strategy) {
     return state;
   }
 
-  while (!isPlayerDone(current)) {
-    const score = handScore(current.hand);
+  let decision = decisionFor(s);
+
+  while (decision) {
+    const next = applyBlackjackAction(s, bot.strategy.decide(decision));
+    s = next === s ? stand(s) : next;
+    decision = decisionFor(s);
+  }
+
+  return s;
+};
+
+/**
+ * What the table is waiting for:
+ * - "bet": betting is open; humans bet, then dealHands()
+ * - "insurance": a human seat must take or decline the insurance offer
+ * - "act": a human hand must choose one of `actions`
+ * - "auto": a bot, the dealer or the engine moves next; step() plays it
+ * - "finished": the round is settled
+ */
+export type BlackjackTurn =
+  | { kind: "bet" }
+  | { kind: "insurance"; playerIndex: number }
+  | { kind: "act"; playerIndex: number; handIndex: number; actions: BlackjackAction[] }
+  | { kind: "auto"; playerIndex: number }
+  | { kind: "finished" };
+
+// Moves the acting hand may make right now (none unless a seat's hand is up)
+export const legalActions = (state: BlackjackState): BlackjackAction[] => {
+  const d = decisionFor(state);
+  if (!d) return [];
+
+  const actions: BlackjackAction[] = isLockedSplitAce(d.hand, state.rules)
+    ? ["stand"]
+    : ["hit", "stand"];
+  if (d.canDouble) actions.push("double");
+  if (d.canSplit) actions.push("split");
+  if (d.canSurrender) actions.push("surrender");
+  return actions;
+};
+
+// Anything a seat may do right now; bets are ranges of chips
+export type BlackjackLegalAction =
+  | { type: "bet"; min: number; max: number }
+  | { type: "side-bet"; bet: BlackjackSideBet; max: number } // 0 clears it
+  | { type: "insurance"; take: boolean }
+  | { type: "play"; action: BlackjackAction };
 
-    if (score < 16) {
-      s = hit(s);
-    } else {
-      s = stand(s);
+/**
+ * Every action the seat `playerId` may take in the current phase: bets
+ * while betting is open, its insurance answer while the offer stands, and
+ * its hand's moves when it's up. Empty for the dealer and unknown ids.
+ */
+export const getLegalActions = (
+  state: BlackjackState,
+  playerId: string
+): BlackjackLegalAction[] => {
+  const idx = state.players.findIndex(p => p.id === playerId);
+  const p = state.players[idx];
+  if (!p || p.isDealer) return [];
+
+  switch (state.phase) {
+    case "betting": {
+      const { minBet, maxBet } = state.limits;
+      if (p.bankroll + p.bet < minBet) return [];
+
+      const actions: BlackjackLegalAction[] = [
+        { type: "bet", min: minBet, max: Math.min(maxBet, p.bankroll + p.bet) }
+      ];
+      for (const bet of ["perfectPairs", "twentyOnePlusThree"] as const) {
+        if (sidePaytable(state.rules, bet)) {
+          actions.push({ type: "side-bet", bet, max: Math.min(maxBet, p.bankroll + p.sideBets[bet]) });
+        }
+      }
+      return actions;
     }
+    case "insurance": {
+      if (p.hands.length === 0 || p.insuranceDecided) return [];
 
-    current = getPlayer(s.players, s.currentPlayerIndex);
+      const decline: BlackjackLegalAction = { type: "insurance", take: false };
+      return canTakeInsurance(state, idx) ? [{ type: "insurance", take: true }, decline] : [decline];
+    }
+    case "playing":
+      if (idx !== state.currentPlayerIndex) return [];
+      return legalActions(state).map(action => ({ type: "play", action }));
+    case "finished":
+      return [];
   }
+};
 
+// Human seat still owing an insurance answer, or -1
+const awaitingInsurance = (state: BlackjackState): number =>
+  state.players.findIndex(
+    p => !p.isDealer && !p.isBot && p.hands.length > 0 && !p.insuranceDecided
+  );
+
+// The dealer plays once every seat is done, or when nobody is in the round
+const dealerIsUp = (state: BlackjackState): boolean =>
+  allNonDealerDone(state) || state.players[state.currentPlayerIndex]?.isDealer !== false;
+
+export const nextTurn = (state: BlackjackState): BlackjackTurn => {
+  switch (state.phase) {
+    case "betting": return { kind: "bet" };
+    case "finished": return { kind: "finished" };
+    case "insurance": {
+      const playerIndex = awaitingInsurance(state);
+      return playerIndex > 0 ? { kind: "insurance", playerIndex } : { kind: "auto", playerIndex: 0 };
+    }
+    case "playing": {
+      if (dealerIsUp(state)) return { kind: "auto", playerIndex: 0 };
+
+      const playerIndex = state.currentPlayerIndex;
+      const actions = legalActions(state);
+      const human = !state.players[playerIndex]?.isBot;
+
+      return human && actions.length > 0
+        ? { kind: "act", playerIndex, handIndex: state.currentHandIndex, actions }
+        : { kind: "auto", playerIndex };
+    }
+  }
+};
+
+/**
+ * Makes the one move the table can make without a human: closes the
+ * insurance offer once every human has answered, skips finished hands and
+ * empty seats, plays a bot's hand, or plays the dealer out and settles.
+ * Returns the state unchanged when it's waiting on bets or a human.
+ */
+export const step = (state: BlackjackState): BlackjackState => {
+  const turn = nextTurn(state);
+  if (turn.kind !== "auto") return state;
+
+  if (state.phase === "insurance") return closeInsurance(state);
+  if (dealerIsUp(state)) return dealerAutoPlay(state);
+
+  const hand = currentHand(state);
+  if (!hand || isHandDone(hand)) return nextPlayer(state);
+
+  return nextPlayer(botAutoPlay(state));
+};
+
+// Steps until a human must bet, answer insurance or act, or the round is over
+export const advance = (state: BlackjackState): BlackjackState => {
+  let s = state;
+  for (let next = step(s); next !== s; next = step(s)) {
+    s = next;
+  }
   return s;
 };
+
+// Puts the logged cards on top of the shoe so the replayed draw matches
+const stackLogged = (state: BlackjackState, cards: Card[]): BlackjackState =>
+  ({ ...state, shoe: stackShoe(state.shoe, cards) });
+
+/**
+ * Re-applies one logged event to the table. Dealt cards come from the
+ * event rather than the shoe, so rounds dealt from a stacked shoe (drills)
+ * replay the same. Derived events are skipped: "bust" follows from the
+ * card before it, and "settle" only applies if the round is still open.
+ */
+export const replayBlackjackEvent = (
+  state: BlackjackState,
+  event: BlackjackEvent
+): BlackjackState => {
+  switch (event.type) {
+    case "round":
+      return state.round < event.round ? nextRound(state) : state;
+    case "join": return joinTable(state, { ...event.seat, name: event.playerId });
+    case "leave": return leaveTable(state, event.playerId);
+    case "bet": return placeBet(state, event.playerIndex, event.amount);
+    case "side-bet": return placeSideBet(state, event.playerIndex, event.bet, event.amount);
+    case "deal":
+      return dealHands(stackLogged(state, event.hands.flatMap(h => h.cards)));
+    case "insurance":
+      return event.taken
+        ? takeInsurance(state, event.playerIndex)
+        : declineInsurance(state, event.playerIndex);
+    case "insurance-closed": return closeInsurance(state);
+    case "hit": return hit(stackLogged(state, [event.card]));
+    case "dealer-draw": return hit(stackLogged(state, [event.card]));
+    case "stand": return stand(state);
+    case "double": return doubleDown(stackLogged(state, [event.card]));
+    case "split": return split(stackLogged(state, event.cards));
+    case "surrender": return surrender(state);
+    case "turn": return nextPlayer(state);
+    case "reveal": return revealHoleCard(state);
+    case "bust": return state;
+    case "settle": return state.phase === "finished" ? state : settleRound(state);
+  }
+};
+
+/**
+ * Rebuilds a table from its config (with the seed it was created with)
+ * and its event log: every round's log, oldest first. Stops after the
+ * first `steps` events, so any point in the table's history can be shown.
+ */
+export const replayBlackjack = (
+  config: BlackjackConfig,
+  log: BlackjackEvent[],
+  steps: number = log.length
+): BlackjackState =>
+  log.slice(0, steps).reduce(replayBlackjackEvent, initBlackjack(config));
+
+// One-line description of a logged event, e.g. "H1 hits 7♥"
+export const describeBlackjackEvent = (state: BlackjackState, event: BlackjackEvent): string => {
+  const name = (idx: number) => state.players[idx]?.id ?? `Seat ${idx}`;
+  const card = (c: Card) => `${c.rank}${c.suit}`;
+
+  switch (event.type) {
+    case "round":
+      return `Round ${event.round}${event.reshuffled ? " (shoe reshuffled)" : ""}`;
+    case "join": return `${event.playerId} joins the table`;
+    case "leave": return `${event.playerId} leaves the table`;
+    case "bet": return `${name(event.playerIndex)} bets ${event.amount}`;
+    case "side-bet":
+      return `${name(event.playerIndex)} bets ${event.amount} on ${sideBetLabel(event.bet)}`;
+    case "deal": return "Cards dealt";
+    case "insurance":
+      return `${name(event.playerIndex)} ${event.taken ? "takes" : "declines"} insurance`;
+    case "insurance-closed": return "Insurance closed";
+    case "hit": return `${name(event.playerIndex)} hits ${card(event.card)}`;
+    case "stand": return `${name(event.playerIndex)} stands`;
+    case "double": return `${name(event.playerIndex)} doubles ${card(event.card)}`;
+    case "split": return `${name(event.playerIndex)} splits`;
+    case "surrender": return `${name(event.playerIndex)} surrenders`;
+    case "bust": return `${name(event.playerIndex)} busts`;
+    case "turn":
+      return `${name(event.playerIndex)} to act${event.handIndex > 0 ? ` (hand ${event.handIndex + 1})` : ""}`;
+    case "reveal": return "Dealer turns the hole card";
+    case "dealer-draw": return `${name(0)} draws ${card(event.card)}`;
+    case "settle":
+      return event.result.dealerBusted
+        ? "Round settled: dealer bust"
+        : `Round settled: dealer ${event.result.dealerScore}`;
+  }
+};
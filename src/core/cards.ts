@@ -1,4 +1,5 @@
 // src/core/cards.ts
+import { Rng, createRng } from "./random";
 
 export type Suit = "♠" | "♥" | "♦" | "♣";
 export type Rank =
@@ -25,11 +26,12 @@ export const createDeck = (): Card[] => {
   return deck;
 };
 
-export const shuffle = (deck: Card[]): Card[] => {
+// Fisher–Yates; pass a seeded Rng to make the result reproducible
+export const shuffle = (deck: Card[], rng: Rng = createRng()): Card[] => {
   const copy = [...deck];
 
   for (let i = copy.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(rng.next() * (i + 1));
 
     const ci = copy[i];
     const cj = copy[j];
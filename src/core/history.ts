@@ -0,0 +1,72 @@
+// src/core/history.ts
+
+/**
+ * Undo/redo stacks around an immutable game state. `present` is the state
+ * on screen; `past` holds older states (oldest first, at most `limit`) and
+ * `future` the states undone since the last new move (next redo first).
+ */
+export interface UndoHistory<T> {
+  past: T[];
+  present: T;
+  future: T[];
+  limit: number;
+}
+
+// Lets a restored state keep bookkeeping from the one being left (e.g. an undo count)
+export type HistoryCarry<T> = (restored: T, left: T) => T;
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+
+export const createHistory = <T>(present: T, limit = DEFAULT_HISTORY_LIMIT): UndoHistory<T> => {
+  if (!Number.isInteger(limit) || limit < 0) {
+    throw new Error("History limit must be a whole number of 0 or more");
+  }
+  return { past: [], present, future: [], limit };
+};
+
+export const canUndo = <T>(h: UndoHistory<T>): boolean => h.past.length > 0;
+
+export const canRedo = <T>(h: UndoHistory<T>): boolean => h.future.length > 0;
+
+// A new move: the current state becomes undoable and the redo stack is dropped.
+// Rejected moves (same state back) leave the history alone.
+export const pushHistory = <T>(h: UndoHistory<T>, next: T): UndoHistory<T> => {
+  if (next === h.present) return h;
+
+  const past = [...h.past, h.present];
+  return {
+    ...h,
+    past: past.slice(Math.max(0, past.length - h.limit)),
+    present: next,
+    future: []
+  };
+};
+
+// Changes that shouldn't be undone on their own (bot moves, settings). The
+// redo stack is dropped, since those states no longer follow from `next`.
+export const replacePresent = <T>(h: UndoHistory<T>, next: T): UndoHistory<T> =>
+  next === h.present ? h : { ...h, present: next, future: [] };
+
+export const undoHistory = <T>(h: UndoHistory<T>, carry?: HistoryCarry<T>): UndoHistory<T> => {
+  const restored = h.past[h.past.length - 1];
+  if (restored === undefined) return h;
+
+  return {
+    ...h,
+    past: h.past.slice(0, -1),
+    present: carry ? carry(restored, h.present) : restored,
+    future: [h.present, ...h.future]
+  };
+};
+
+export const redoHistory = <T>(h: UndoHistory<T>, carry?: HistoryCarry<T>): UndoHistory<T> => {
+  const [restored, ...future] = h.future;
+  if (restored === undefined) return h;
+
+  return {
+    ...h,
+    past: [...h.past, h.present],
+    present: carry ? carry(restored, h.present) : restored,
+    future
+  };
+};
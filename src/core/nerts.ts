@@ -1,5 +1,6 @@
 // src/core/nerts.ts
 import { Card, Suit, createDeck, shuffle } from "./cards";
+import { Rng, createRng } from "./random";
 
 export type PlayerId = string;
 
@@ -25,9 +26,12 @@ export interface NertsFoundationPile {
 
 export interface NertsConfig {
   playerIds: PlayerId[];
+  seed?: number;  // fixed seed to replay every player's deal
+  rng?: Rng;      // custom random source (takes precedence over seed)
 }
 
 export interface NertsState {
+  seed: number;   // seed all decks were shuffled with
   players: NertsPlayerState[];
   foundations: NertsFoundationPile[];
   startedAt: number;
@@ -76,6 +80,9 @@ function makeFaceUp(c: NertsCard): NertsCard {
 // ---- Init ----
 
 export function initNerts(config: NertsConfig): NertsState {
+  // One source for the whole table, so a single seed replays every deck
+  const rng = config.rng ?? createRng(config.seed);
+
   // One slot per potential Ace (4 suits × players)
     const foundations: NertsFoundationPile[] = Array.from(
         { length: config.playerIds.length * 4 },
@@ -86,7 +93,7 @@ export function initNerts(config: NertsConfig): NertsState {
     );
 
   const players: NertsPlayerState[] = config.playerIds.map(playerId => {
-    const baseDeck = shuffle(createDeck());
+    const baseDeck = shuffle(createDeck(), rng);
     const all: NertsCard[] = baseDeck.map((c, idx) => ({
       ...c,
       id: `${playerId}-${c.rank}${c.suit}-${idx}`,
@@ -120,6 +127,7 @@ export function initNerts(config: NertsConfig): NertsState {
   });
 
   return {
+    seed: rng.seed,
     players,
     foundations,
     startedAt: Date.now(),
@@ -139,72 +147,111 @@ export type NertsAction =
   | { type: "nerts_to_tableau"; playerId: PlayerId; tableauIndex: number }
   | { type: "nerts_to_foundation"; playerId: PlayerId; foundationIndex: number };
 
+// Why applyNertsAction turned an action down
+export type NertsRejectionReason =
+  | "game-finished"
+  | "unknown-player"
+  | "no-such-pile"     // tableau or foundation index out of range
+  | "nothing-to-draw"  // stock and waste both empty
+  | "empty-waste"
+  | "empty-nerts"
+  | "card-not-found"   // tableau move names a card that isn't in the pile
+  | "face-down"
+  | "needs-king"       // only Kings start an empty tableau pile
+  | "needs-ace"        // only Aces start an empty foundation
+  | "wrong-colour"
+  | "wrong-suit"
+  | "wrong-rank";
+
+export type NertsActionResult =
+  | { ok: true; state: NertsState }
+  | { ok: false; reason: NertsRejectionReason };
+
 export function isNertsFinished(state: NertsState): boolean {
   return state.finished;
 }
 
 // Rule helpers
 
-function canPlaceOnTableau(
+// Why `card` can't go on a tableau pile topped by `destTop` (null if it can)
+function tableauRejection(
   destTop: NertsCard | undefined,
   card: NertsCard,
   allowAnyOnEmpty = false
-): boolean {
+): NertsRejectionReason | null {
   const cRank = getRankValue(card.rank);
   const cRed = isRedSuit(card.suit);
 
   if (!destTop) {
     if (allowAnyOnEmpty) {
       // e.g. top of Nerts pile may go to any empty tableau spot
-      return true;
+      return null;
     }
     // Default: only Kings may start an empty tableau pile
-    return cRank === 13;
+    return cRank === 13 ? null : "needs-king";
   }
 
   const dRank = getRankValue(destTop.rank);
   const dRed = isRedSuit(destTop.suit);
 
-  return cRed !== dRed && cRank === dRank - 1;
+  if (cRed === dRed) return "wrong-colour";
+  return cRank === dRank - 1 ? null : "wrong-rank";
 }
 
+function canPlaceOnTableau(
+  destTop: NertsCard | undefined,
+  card: NertsCard,
+  allowAnyOnEmpty = false
+): boolean {
+  return tableauRejection(destTop, card, allowAnyOnEmpty) === null;
+}
 
-function canPlaceOnFoundation(pile: NertsFoundationPile, card: NertsCard): boolean {
+// Why `card` can't go on a foundation pile (null if it can)
+function foundationRejection(
+  pile: NertsFoundationPile,
+  card: NertsCard
+): NertsRejectionReason | null {
   const cRank = getRankValue(card.rank);
+  const top = pile.cards[pile.cards.length - 1];
 
   // Empty pile: only Ace may start it
-  if (pile.cards.length === 0) {
-    return cRank === 1;
+  if (!top) {
+    return cRank === 1 ? null : "needs-ace";
   }
 
-  const top = pile.cards[pile.cards.length - 1];
-
   // Suit must match the pile’s suit and the top card
-  if (top.suit !== card.suit) return false;
+  if (top.suit !== card.suit) return "wrong-suit";
 
   const topRank = getRankValue(top.rank);
-  return cRank === topRank + 1;
+  return cRank === topRank + 1 ? null : "wrong-rank";
+}
+
+function canPlaceOnFoundation(pile: NertsFoundationPile, card: NertsCard): boolean {
+  return foundationRejection(pile, card) === null;
 }
 
 
 // ---- Main reducer ----
 
-export function applyNertsAction(state: NertsState, action: NertsAction): NertsState {
-  if (state.finished) return state;
+/**
+ * Applies an action, or says why it can't be made. Rejections leave the
+ * state untouched.
+ */
+export function tryNertsAction(state: NertsState, action: NertsAction): NertsActionResult {
+  const reject = (reason: NertsRejectionReason): NertsActionResult => ({ ok: false, reason });
+
+  if (state.finished) return reject("game-finished");
 
   const playerIndex = state.players.findIndex(p => p.id === action.playerId);
-  if (playerIndex === -1) return state;
+  if (playerIndex === -1) return reject("unknown-player");
 
   const players = state.players.map(clonePlayer);
   const foundations = cloneFoundations(state.foundations);
   const player = players[playerIndex];
 
   let scoreDelta = 0;
-  let used = false;
-
-  const finalize = () => {
-    if (!used) return state;
 
+  const finalize = (): NertsActionResult => {
     player.score += scoreDelta;
 
     // Check for win: Nerts pile empty
@@ -219,11 +266,14 @@ export function applyNertsAction(state: NertsState, action: NertsAction): NertsS
     }
 
     return {
-      ...state,
-      players,
-      foundations,
-      finished,
-      winnerId
+      ok: true,
+      state: {
+        ...state,
+        players,
+        foundations,
+        finished,
+        winnerId
+      }
     };
   };
 
@@ -238,7 +288,6 @@ export function applyNertsAction(state: NertsState, action: NertsAction): NertsS
           player.waste.push(makeFaceUp(c));
         }
         scoreDelta += 0; // drawing typically not scored
-        used = true;
       } else if (player.waste.length > 0) {
         // Recycle waste back to stock face-down
         const recycled = [...player.waste].reverse().map(c => ({
@@ -247,39 +296,40 @@ export function applyNertsAction(state: NertsState, action: NertsAction): NertsS
         }));
         player.stock = recycled;
         player.waste = [];
-        used = true;
+      } else {
+        return reject("nothing-to-draw");
       }
       return finalize();
     }
 
     case "waste_to_tableau": {
       const dest = player.tableau[action.tableauIndex];
-      if (!dest) return state;
+      if (!dest) return reject("no-such-pile");
       const top = player.waste[player.waste.length - 1];
-      if (!top) return state;
+      if (!top) return reject("empty-waste");
 
-      if (!canPlaceOnTableau(dest[dest.length - 1], top)) return state;
+      const rejection = tableauRejection(dest[dest.length - 1], top);
+      if (rejection) return reject(rejection);
 
       player.waste.pop();
       player.tableau[action.tableauIndex].push(top);
-      used = true;
       return finalize();
     }
 
     case "waste_to_foundation": {
         const f = foundations[action.foundationIndex];
-        if (!f) return state;
+        if (!f) return reject("no-such-pile");
         const top = player.waste[player.waste.length - 1];
-        if (!top) return state;
+        if (!top) return reject("empty-waste");
 
-        if (!canPlaceOnFoundation(f, top)) return state;
+        const rejection = foundationRejection(f, top);
+        if (rejection) return reject(rejection);
 
         player.waste.pop();
         f.cards.push(top);
         if (f.suit === null) f.suit = top.suit;
 
         scoreDelta += 1;
-        used = true;
         return finalize();
     }
 
@@ -287,17 +337,18 @@ export function applyNertsAction(state: NertsState, action: NertsAction): NertsS
     case "tableau_to_tableau": {
       const fromPile = player.tableau[action.fromIndex];
       const toPile = player.tableau[action.toIndex];
-      if (!fromPile || !toPile) return state;
+      if (!fromPile || !toPile) return reject("no-such-pile");
 
       const idx = fromPile.findIndex(c => c.id === action.cardId);
-      if (idx === -1) return state;
+      if (idx === -1) return reject("card-not-found");
 
       const moving = fromPile.slice(idx);
-      if (moving.length === 0) return state;
-      if (!moving[0].faceUp) return state;
+      if (moving.length === 0) return reject("card-not-found");
+      if (!moving[0].faceUp) return reject("face-down");
 
       const destTop = toPile[toPile.length - 1];
-      if (!canPlaceOnTableau(destTop, moving[0])) return state;
+      const rejection = tableauRejection(destTop, moving[0]);
+      if (rejection) return reject(rejection);
 
       // Remove from source
       player.tableau[action.fromIndex] = fromPile.slice(0, idx);
@@ -314,18 +365,19 @@ export function applyNertsAction(state: NertsState, action: NertsAction): NertsS
 
       // Add to dest
       player.tableau[action.toIndex] = toPile.concat(moving);
-      used = true;
       return finalize();
     }
 
     case "tableau_to_foundation": {
       const fromPile = player.tableau[action.fromIndex];
       const f = foundations[action.foundationIndex];
-      if (!fromPile || !f) return state;
+      if (!fromPile || !f) return reject("no-such-pile");
 
       const top = fromPile[fromPile.length - 1];
-      if (!top || !top.faceUp) return state;
-      if (!canPlaceOnFoundation(f, top)) return state;
+      if (!top) return reject("card-not-found");
+      if (!top.faceUp) return reject("face-down");
+      const rejection = foundationRejection(f, top);
+      if (rejection) return reject(rejection);
 
       fromPile.pop();
       f.cards.push(top);
@@ -341,18 +393,19 @@ export function applyNertsAction(state: NertsState, action: NertsAction): NertsS
       }
 
       scoreDelta += 1;
-      used = true;
       return finalize();
     }
 
     case "nerts_to_tableau": {
       const dest = player.tableau[action.tableauIndex];
-      if (!dest) return state;
+      if (!dest) return reject("no-such-pile");
 
       const top = player.nertsPile[player.nertsPile.length - 1];
-      if (!top || !top.faceUp) return state;
+      if (!top) return reject("empty-nerts");
+      if (!top.faceUp) return reject("face-down");
 
-      if (!canPlaceOnTableau(dest[dest.length - 1], top, true)) return state;
+      const rejection = tableauRejection(dest[dest.length - 1], top, true);
+      if (rejection) return reject(rejection);
 
       player.nertsPile.pop();
       dest.push(top);
@@ -366,18 +419,19 @@ export function applyNertsAction(state: NertsState, action: NertsAction): NertsS
         }
       }
 
-      used = true;
       return finalize();
     }
 
     case "nerts_to_foundation": {
       const f = foundations[action.foundationIndex];
-      if (!f) return state;
+      if (!f) return reject("no-such-pile");
 
       const top = player.nertsPile[player.nertsPile.length - 1];
-      if (!top || !top.faceUp) return state;
+      if (!top) return reject("empty-nerts");
+      if (!top.faceUp) return reject("face-down");
 
-      if (!canPlaceOnFoundation(f, top)) return state;
+      const rejection = foundationRejection(f, top);
+      if (rejection) return reject(rejection);
 
         player.nertsPile.pop();
         f.cards.push(top);
@@ -394,157 +448,150 @@ export function applyNertsAction(state: NertsState, action: NertsAction): NertsS
       }
 
       scoreDelta += 2; // reward Nerts → foundation more
-      used = true;
       return finalize();
     }
   }
 }
 
-// ---- Bot logic ----
-
-function findNertsToFoundation(state: NertsState, player: NertsPlayerState): NertsAction | null {
-  const top = player.nertsPile[player.nertsPile.length - 1];
-  if (!top || !top.faceUp) return null;
+// Same as tryNertsAction, but returns `state` unchanged on a rejection
+export function applyNertsAction(state: NertsState, action: NertsAction): NertsState {
+  const result = tryNertsAction(state, action);
+  return result.ok ? result.state : state;
+}
 
-  for (let i = 0; i < state.foundations.length; i++) {
-    const f = state.foundations[i];
-    if (canPlaceOnFoundation(f, top)) {
-        return { type: "nerts_to_foundation", playerId: player.id, foundationIndex: i };
-    }
+// Short explanation for the player, e.g. "Only a King can start an empty pile"
+export function describeNertsRejection(reason: NertsRejectionReason): string {
+  switch (reason) {
+    case "game-finished": return "The game is over";
+    case "unknown-player": return "You're not in this game";
+    case "no-such-pile": return "There's no pile there";
+    case "nothing-to-draw": return "Your stock and waste are both empty";
+    case "empty-waste": return "Your waste pile is empty";
+    case "empty-nerts": return "Your Nerts pile is empty";
+    case "card-not-found": return "That card isn't in the pile any more";
+    case "face-down": return "That card is face down";
+    case "needs-king": return "Only a King can start an empty pile";
+    case "needs-ace": return "Only an Ace can start a foundation";
+    case "wrong-colour": return "Tableau cards must alternate colours";
+    case "wrong-suit": return "Foundations build up in one suit";
+    case "wrong-rank": return "Wrong rank: build one step at a time";
   }
-
-  return null;
 }
 
-function findNertsToTableau(state: NertsState, player: NertsPlayerState): NertsAction | null {
-  const top = player.nertsPile[player.nertsPile.length - 1];
-  if (!top || !top.faceUp) return null;
+// ---- Legal actions ----
 
-  for (let i = 0; i < player.tableau.length; i++) {
-    const dest = player.tableau[i];
-    if (canPlaceOnTableau(dest[dest.length - 1], top, true)) {
-      return { type: "nerts_to_tableau", playerId: player.id, tableauIndex: i };
+/**
+ * Every action `playerId` can make right now, in a stable order: Nerts
+ * pile, then waste, then tableau moves, then drawing. Each one is accepted
+ * by applyNertsAction. Empty once the game is over or for unknown players.
+ */
+export function getLegalActions(state: NertsState, playerId: PlayerId): NertsAction[] {
+  const player = state.players.find(p => p.id === playerId);
+  if (state.finished || !player) return [];
+
+  const actions: NertsAction[] = [];
+  const foundationsFor = (card: NertsCard): number[] =>
+    state.foundations.flatMap((f, i) => (canPlaceOnFoundation(f, card) ? [i] : []));
+  const tableauFor = (card: NertsCard, allowAnyOnEmpty = false, except = -1): number[] =>
+    player.tableau.flatMap((pile, i) =>
+      i !== except && canPlaceOnTableau(pile[pile.length - 1], card, allowAnyOnEmpty) ? [i] : []
+    );
+
+  const nertsTop = player.nertsPile[player.nertsPile.length - 1];
+  if (nertsTop && nertsTop.faceUp) {
+    for (const foundationIndex of foundationsFor(nertsTop)) {
+      actions.push({ type: "nerts_to_foundation", playerId, foundationIndex });
+    }
+    for (const tableauIndex of tableauFor(nertsTop, true)) {
+      actions.push({ type: "nerts_to_tableau", playerId, tableauIndex });
     }
   }
-  return null;
-}
 
-function findTableauToFoundation(state: NertsState, player: NertsPlayerState): NertsAction | null {
-  for (let t = 0; t < player.tableau.length; t++) {
-    const pile = player.tableau[t];
-    if (pile.length === 0) continue;
-    const top = pile[pile.length - 1];
-    if (!top.faceUp) continue;
-
-    for (let fIdx = 0; fIdx < state.foundations.length; fIdx++) {
-      const f = state.foundations[fIdx];
-      if (canPlaceOnFoundation(f, top)) {
-        return {
-          type: "tableau_to_foundation",
-          playerId: player.id,
-          fromIndex: t,
-          foundationIndex: fIdx
-        };
-      }
+  const wasteTop = player.waste[player.waste.length - 1];
+  if (wasteTop) {
+    for (const foundationIndex of foundationsFor(wasteTop)) {
+      actions.push({ type: "waste_to_foundation", playerId, foundationIndex });
+    }
+    for (const tableauIndex of tableauFor(wasteTop)) {
+      actions.push({ type: "waste_to_tableau", playerId, tableauIndex });
     }
   }
-  return null;
-}
 
-function findWasteToFoundation(state: NertsState, player: NertsPlayerState): NertsAction | null {
-  const top = player.waste[player.waste.length - 1];
-  if (!top) return null;
-
-  for (let fIdx = 0; fIdx < state.foundations.length; fIdx++) {
-    const f = state.foundations[fIdx];
-    if (canPlaceOnFoundation(f, top)) {
-      return {
-        type: "waste_to_foundation",
-        playerId: player.id,
-        foundationIndex: fIdx
-      };
+  player.tableau.forEach((pile, fromIndex) => {
+    const top = pile[pile.length - 1];
+    if (top && top.faceUp) {
+      for (const foundationIndex of foundationsFor(top)) {
+        actions.push({ type: "tableau_to_foundation", playerId, fromIndex, foundationIndex });
+      }
     }
-  }
-  return null;
-}
 
-function findWasteToTableau(state: NertsState, player: NertsPlayerState): NertsAction | null {
-  const top = player.waste[player.waste.length - 1];
-  if (!top) return null;
-
-  for (let i = 0; i < player.tableau.length; i++) {
-    const dest = player.tableau[i];
-    if (canPlaceOnTableau(dest[dest.length - 1], top)) {
-      return {
-        type: "waste_to_tableau",
-        playerId: player.id,
-        tableauIndex: i
-      };
+    // Any face-up card moves together with everything on top of it
+    for (const card of pile) {
+      if (!card.faceUp) continue;
+      for (const toIndex of tableauFor(card, false, fromIndex)) {
+        actions.push({ type: "tableau_to_tableau", playerId, fromIndex, toIndex, cardId: card.id });
+      }
     }
+  });
+
+  if (player.stock.length > 0 || player.waste.length > 0) {
+    actions.push({ type: "stock_draw", playerId });
   }
-  return null;
+
+  return actions;
 }
 
-function findTableauToTableau(state: NertsState, player: NertsPlayerState): NertsAction | null {
-  for (let from = 0; from < player.tableau.length; from++) {
-    const pile = player.tableau[from];
+// ---- Bot logic ----
 
-    for (let idx = 0; idx < pile.length; idx++) {
-      const card = pile[idx];
-      if (!card.faceUp) continue; // can only move visible sequences
+// Bots prefer moves in this order and draw from stock when none apply
+const BOT_PRIORITY: NertsAction["type"][] = [
+  "nerts_to_foundation",
+  "tableau_to_foundation",
+  "waste_to_foundation",
+  "nerts_to_tableau",
+  "tableau_to_tableau",
+  "waste_to_tableau"
+];
 
-      // ✅ Only consider moves that will reveal a face-down card behind the sequence
-      const cardBefore = idx > 0 ? pile[idx - 1] : undefined;
-      if (!cardBefore || cardBefore.faceUp) {
-        // Either this is the very top card or the card behind is already face up.
-        // Moving this doesn't uncover anything, so skip it to avoid pointless shuffles.
-        continue;
-      }
+// Bots only move tableau cards when that uncovers a face-down card behind
+// them, to avoid pointless shuffles
+function uncoversCard(player: NertsPlayerState, action: NertsAction): boolean {
+  if (action.type !== "tableau_to_tableau") return true;
 
-      for (let to = 0; to < player.tableau.length; to++) {
-        if (to === from) continue;
-        const dest = player.tableau[to];
-        if (canPlaceOnTableau(dest[dest.length - 1], card)) {
-          return {
-            type: "tableau_to_tableau",
-            playerId: player.id,
-            fromIndex: from,
-            toIndex: to,
-            cardId: card.id
-          };
-        }
-      }
-    }
-  }
-  return null;
+  const pile = player.tableau[action.fromIndex] ?? [];
+  const idx = pile.findIndex(c => c.id === action.cardId);
+  const cardBefore = idx > 0 ? pile[idx - 1] : undefined;
+  return cardBefore !== undefined && !cardBefore.faceUp;
 }
 
+/**
+ * Moves worth making for `playerId`, best first: legal moves in
+ * BOT_PRIORITY order (ties keep getLegalActions order), then drawing.
+ * Bots play the first one; hints walk the list.
+ */
+export function rankNertsMoves(state: NertsState, playerId: PlayerId): NertsAction[] {
+  const player = state.players.find(p => p.id === playerId);
+  if (!player) return [];
+
+  const rank = (a: NertsAction): number => {
+    const idx = BOT_PRIORITY.indexOf(a.type);
+    return idx === -1 ? BOT_PRIORITY.length : idx;
+  };
+
+  return getLegalActions(state, playerId)
+    .filter(a => uncoversCard(player, a))
+    .sort((a, b) => rank(a) - rank(b));
+}
 
 /**
  * One "step" for a bot: tries a prioritized move for a given bot playerId.
  */
 export function botStep(state: NertsState, botId: PlayerId): NertsState {
   if (state.finished) return state;
+  if (!state.players.some(p => p.id === botId)) return state;
 
-  const player = state.players.find(p => p.id === botId);
-  if (!player) return state;
-
-  // Priority:
-  // 1. Nerts → foundation
-  // 2. Tableau → foundation
-  // 3. Waste → foundation
-  // 4. Nerts → tableau
-  // 5. Tableau → tableau
-  // 6. Waste → tableau
-  // 7. Draw from stock
   const action =
-    findNertsToFoundation(state, player) ??
-    findTableauToFoundation(state, player) ??
-    findWasteToFoundation(state, player) ??
-    findNertsToTableau(state, player) ??
-    findTableauToTableau(state, player) ??
-    findWasteToTableau(state, player) ??
-    ({ type: "stock_draw", playerId: botId } as NertsAction);
+    rankNertsMoves(state, botId)[0] ?? ({ type: "stock_draw", playerId: botId } as NertsAction);
 
   return applyNertsAction(state, action);
 }
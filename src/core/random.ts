@@ -0,0 +1,42 @@
+// src/core/random.ts
+
+/**
+ * Seeded random source used by every shuffle in the engine.
+ * next() must return a float in [0, 1), like Math.random().
+ *
+ * The seed is carried on the source so engines can record it in their
+ * state: re-creating a source from the same seed replays the same deal.
+ */
+export interface Rng {
+  readonly seed: number;
+  next(): number;
+}
+
+// Fresh 32-bit seed for games that don't ask for a specific one
+export const randomSeed = (): number =>
+  Math.floor(Math.random() * 0x100000000) >>> 0;
+
+// Default implementation: mulberry32 (small, fast, good enough for cards)
+export const createRng = (seed: number = randomSeed()): Rng => {
+  const normalized = seed >>> 0;
+  let a = normalized;
+
+  return {
+    seed: normalized,
+    next: () => {
+      a = (a + 0x6d2b79f5) >>> 0;
+      let t = a;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    }
+  };
+};
+
+// Derive a stable child seed (e.g. "seed for reshuffle #3") from a base seed
+export const deriveSeed = (seed: number, salt: number): number => {
+  let h = (seed ^ Math.imul(salt + 1, 0x9e3779b1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b) >>> 0;
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35) >>> 0;
+  return (h ^ (h >>> 16)) >>> 0;
+};
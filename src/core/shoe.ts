@@ -0,0 +1,128 @@
+// src/core/shoe.ts
+import { Card, createDeck, shuffle, dealOne } from "./cards";
+import { Rng, createRng, deriveSeed } from "./random";
+
+export const MIN_DECKS = 1;
+export const MAX_DECKS = 8;
+
+export interface ShoeConfig {
+  numDecks: number;      // 1–8
+  penetration: number;   // fraction of the shoe dealt before the cut card (0–1)
+}
+
+export interface Shoe {
+  seed: number;          // base seed; reshuffle #n uses deriveSeed(seed, n)
+  numDecks: number;
+  penetration: number;
+  cards: Card[];         // undealt cards, top is at end
+  discards: Card[];      // cards played since the last shuffle
+  cutCard: number;       // reshuffle between rounds once cards.length <= cutCard
+  shuffles: number;      // how many times this shoe has been shuffled
+}
+
+const buildCards = (numDecks: number): Card[] => {
+  const cards: Card[] = [];
+  for (let i = 0; i < numDecks; i++) {
+    cards.push(...createDeck());
+  }
+  return cards;
+};
+
+const cutCardPosition = (total: number, penetration: number): number =>
+  Math.max(0, Math.round(total * (1 - penetration)));
+
+export const createShoe = (config: ShoeConfig, rng: Rng = createRng()): Shoe => {
+  const { numDecks, penetration } = config;
+
+  if (!Number.isInteger(numDecks) || numDecks < MIN_DECKS || numDecks > MAX_DECKS) {
+    throw new Error(`numDecks must be an integer between ${MIN_DECKS} and ${MAX_DECKS}`);
+  }
+  if (!(penetration > 0 && penetration < 1)) {
+    throw new Error("penetration must be between 0 and 1 (exclusive)");
+  }
+
+  const cards = shuffle(buildCards(numDecks), rng);
+
+  return {
+    seed: rng.seed,
+    numDecks,
+    penetration,
+    cards,
+    discards: [],
+    cutCard: cutCardPosition(cards.length, penetration),
+    shuffles: 1
+  };
+};
+
+export const cloneShoe = (shoe: Shoe): Shoe => ({
+  ...shoe,
+  cards: [...shoe.cards],
+  discards: [...shoe.discards]
+});
+
+// Has the cut card come out? Checked between rounds only.
+export const needsReshuffle = (shoe: Shoe): boolean =>
+  shoe.cards.length <= shoe.cutCard;
+
+// Gather every card back and shuffle a full shoe (cards in play must have
+// been discarded first). Deterministic for a given base seed.
+export const reshuffleShoe = (shoe: Shoe): Shoe => {
+  const rng = createRng(deriveSeed(shoe.seed, shoe.shuffles));
+  const cards = shuffle(buildCards(shoe.numDecks), rng);
+
+  return {
+    ...shoe,
+    cards,
+    discards: [],
+    shuffles: shoe.shuffles + 1
+  };
+};
+
+export const discardToShoe = (shoe: Shoe, cards: Card[]): Shoe => ({
+  ...shoe,
+  discards: [...shoe.discards, ...cards]
+});
+
+/**
+ * Deals the top card, mutating the given (already cloned) shoe.
+ * If the shoe runs dry mid-round, the discards are shuffled back in
+ * instead of failing the hand.
+ */
+export const drawFromShoe = (shoe: Shoe): Card => {
+  if (shoe.cards.length === 0 && shoe.discards.length > 0) {
+    const rng = createRng(deriveSeed(shoe.seed, shoe.shuffles));
+    shoe.cards = shuffle(shoe.discards, rng);
+    shoe.discards = [];
+    shoe.shuffles += 1;
+  }
+  return dealOne(shoe.cards);
+};
+
+/**
+ * Arranges the next draws, e.g. for a training drill: wanted[i] is the
+ * i-th card to be dealt (null = whatever comes). Cards are swapped into
+ * place from deeper in the shoe, so the shoe's contents don't change;
+ * a card with no copy left undealt is matched by rank alone, or skipped.
+ */
+export const stackShoe = (shoe: Shoe, wanted: (Card | null)[]): Shoe => {
+  const cards = [...shoe.cards];
+
+  wanted.forEach((card, i) => {
+    const pos = cards.length - 1 - i;
+    if (!card || pos < 0) return;
+
+    const below = cards.slice(0, pos + 1);
+    let j = below.findIndex(c => c.rank === card.rank && c.suit === card.suit);
+    if (j < 0) j = below.findIndex(c => c.rank === card.rank);
+    if (j < 0) return;
+
+    const a = cards[j];
+    const b = cards[pos];
+    if (!a || !b) return;
+
+    cards[j] = b;
+    cards[pos] = a;
+  });
+
+  return { ...shoe, cards };
+};
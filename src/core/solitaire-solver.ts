@@ -0,0 +1,318 @@
+// src/core/solitaire-solver.ts
+import { randomSeed } from "./random";
+import {
+  FOUNDATION_SUITS,
+  SolitaireAction,
+  SolitaireCard,
+  SolitaireConfig,
+  SolitaireState,
+  applySolitaireAction,
+  canMoveToFoundation,
+  canMoveToTableau,
+  getLegalActions,
+  initSolitaire,
+  isSolitaireWon,
+  passLimit
+} from "./solitaire";
+
+export type SolitaireSolveStatus =
+  | "solved"
+  | "unsolvable"   // every reachable position was searched
+  | "gave-up";     // ran out of node budget first
+
+export interface SolitaireSolveOptions {
+  maxNodes?: number;   // positions to visit before giving up, default 100k
+}
+
+export interface SolitaireSolution {
+  status: SolitaireSolveStatus;
+  moves: SolitaireAction[];   // winning line from the given state, empty unless solved
+  nodes: number;              // distinct positions visited
+}
+
+export interface SolitaireDealOptions extends SolitaireSolveOptions {
+  maxDeals?: number;       // deals to try before settling for the last one, default 20
+  maxTotalNodes?: number;  // positions across all deals, default maxNodes × maxDeals
+}
+
+const DEFAULT_MAX_NODES = 100_000;
+const DEFAULT_MAX_DEALS = 20;
+
+const DRAW: SolitaireAction = { type: "draw" };
+
+const rankOrder = ["A", "2", "3", "4", "5", "6", "7", "8", "9", "10", "J", "Q", "K"];
+
+const cardRank = (rank: string): number => rankOrder.indexOf(rank) + 1;
+
+// Identifies a position regardless of move count. Tableau piles are
+// sorted: which column a pile sits in doesn't change what can be won.
+// Under a pass limit the passes used count too.
+function positionKey(s: SolitaireState): string {
+  const pileKey = (pile: SolitaireState["waste"]) =>
+    pile.map(c => (c.faceUp ? c.id : `~${c.id}`)).join(",");
+
+  return [
+    s.maxPasses === null ? "" : s.pass,
+    pileKey(s.stock),
+    pileKey(s.waste),
+    FOUNDATION_SUITS.map(suit => s.foundations[suit].length).join(","),
+    s.tableau.map(pileKey).sort().join("/")
+  ].join("|");
+}
+
+// The card a foundation move would lift
+function cardMovedUp(s: SolitaireState, action: SolitaireAction) {
+  if (action.type === "waste_to_foundation") return s.waste[s.waste.length - 1];
+  if (action.type === "tableau_to_foundation") {
+    const pile = s.tableau[action.fromIndex] ?? [];
+    return pile[pile.length - 1];
+  }
+  return undefined;
+}
+
+// A foundation move nothing could ever need undone: Aces and twos, or a
+// card whose opposite-colour partners one rank down are already up
+function isSafeFoundationMove(s: SolitaireState, action: SolitaireAction): boolean {
+  const card = cardMovedUp(s, action);
+  if (!card) return false;
+
+  const rank = cardRank(card.rank);
+  if (rank <= 2) return true;
+
+  const red = card.suit === "♥" || card.suit === "♦";
+  const opposite = red ? (["♠", "♣"] as const) : (["♥", "♦"] as const);
+  return opposite.every(suit => s.foundations[suit].length >= rank - 1);
+}
+
+// Tableau moves worth making: ones that turn over a face-down card, clear
+// a pile for a King, or free the face-up card underneath for a foundation.
+// Shuffling a run between two equal parents never helps.
+function isUsefulTableauMove(s: SolitaireState, action: SolitaireAction): boolean {
+  if (action.type !== "tableau_to_tableau") return true;
+
+  const pile = s.tableau[action.fromIndex] ?? [];
+  const idx = pile.findIndex(c => c.id === action.cardId);
+  const below = pile[idx - 1];
+
+  if (!below) return (s.tableau[action.toIndex] ?? []).length > 0;
+  if (!below.faceUp) return true;
+
+  const up = s.foundations[below.suit];
+  return cardRank(below.rank) === up.length + 1;
+}
+
+// A card only comes back off a foundation to take a face-up tableau card
+// or a card drawing can reach (`wasteCards`) on top of it
+function isUsefulFoundationMove(
+  s: SolitaireState,
+  action: SolitaireAction,
+  wasteCards: SolitaireCard[]
+): boolean {
+  if (action.type !== "foundation_to_tableau") return true;
+
+  const pile = s.foundations[action.suit];
+  const down = pile[pile.length - 1];
+  if (!down) return false;
+
+  const fits = (c: SolitaireCard) =>
+    (c.suit === "♥" || c.suit === "♦") !== (down.suit === "♥" || down.suit === "♦") &&
+    cardRank(c.rank) === cardRank(down.rank) - 1;
+
+  const tableauCards = s.tableau.flatMap((p, i) =>
+    i === action.tableauIndex ? [] : p.filter(c => c.faceUp)
+  );
+  return tableauCards.some(fits) || wasteCards.some(fits);
+}
+
+// Stock, waste and pass number
+type StockAndWaste = [SolitaireCard[], SolitaireCard[], number];
+
+// One "draw" action's effect on the stock and waste, without copying the
+// rest; null when `s` rules the draw out (nothing left, or no passes)
+function turnStock([stock, waste, pass]: StockAndWaste, s: SolitaireState): StockAndWaste | null {
+  if (stock.length === 0) {
+    if (waste.length === 0 || pass >= passLimit(s)) return null;
+    return [[...waste].reverse().map(c => ({ ...c, faceUp: false })), [], pass + 1];
+  }
+  const count = Math.min(s.drawCount, stock.length);
+  const turned = stock.slice(-count).reverse().map(c => ({ ...c, faceUp: true }));
+  return [stock.slice(0, -count), waste.concat(turned), pass];
+}
+
+// The position after drawing `draws` times (as far as drawing is allowed)
+function afterDraws(s: SolitaireState, draws: number): SolitaireState {
+  let piles: StockAndWaste = [s.stock, s.waste, s.pass];
+  for (let i = 0; i < draws; i++) piles = turnStock(piles, s) ?? piles;
+  return { ...s, stock: piles[0], waste: piles[1], pass: piles[2], moves: s.moves + draws };
+}
+
+/**
+ * Every card drawing can bring to the top of the waste, with how many
+ * draws it takes. Cards only leave the stock/waste through plays, so
+ * while drawing the arrangement is fixed by the stock size and repeats
+ * once a size comes round again (by then with fewer passes left, so
+ * nothing new). A pass limit can stop the drawing sooner.
+ */
+function wasteTopsByDrawing(s: SolitaireState): { draws: number; card: SolitaireCard }[] {
+  const tops: { draws: number; card: SolitaireCard }[] = [];
+  const sizes = new Set([s.stock.length]);
+  let piles: StockAndWaste = [s.stock, s.waste, s.pass];
+
+  for (let draws = 1; ; draws++) {
+    const turned = turnStock(piles, s);
+    if (!turned) break;
+    piles = turned;
+    if (sizes.has(piles[0].length)) break;
+    sizes.add(piles[0].length);
+
+    const top = piles[1][piles[1].length - 1];
+    if (top) tops.push({ draws, card: top });
+  }
+
+  return tops;
+}
+
+// A play, after drawing enough times to bring its card up (maybe none)
+interface SearchLine {
+  draws: number;
+  play: SolitaireAction;
+}
+
+/**
+ * Lines worth trying from a position, most promising first. Draws only
+ * matter for the waste card they turn up, so each line is a play with the
+ * draws that bring its card up first; draws and tableau moves can be
+ * swapped freely, so no win is lost. A safe foundation move is forced.
+ */
+function candidateLines(s: SolitaireState): SearchLine[] {
+  const drawable = wasteTopsByDrawing(s);
+  const wasteCards = [...s.waste.slice(-1), ...drawable.map(t => t.card)];
+  const legal = getLegalActions(s).filter(a =>
+    a.type !== "draw" &&
+    isUsefulTableauMove(s, a) &&
+    isUsefulFoundationMove(s, a, wasteCards)
+  );
+
+  const safe = legal.find(a => isSafeFoundationMove(s, a));
+  if (safe) return [{ draws: 0, play: safe }];
+
+  const lines: SearchLine[] = legal.map(play => ({ draws: 0, play }));
+
+  // Drawing leaves the tableau and foundations alone, so `s` still says
+  // where each waste card could go
+  for (const { draws, card } of drawable) {
+    if (canMoveToFoundation(s, card)) {
+      lines.push({ draws, play: { type: "waste_to_foundation" } });
+    }
+    s.tableau.forEach((_, tableauIndex) => {
+      if (canMoveToTableau(s, tableauIndex, card)) {
+        lines.push({ draws, play: { type: "waste_to_tableau", tableauIndex } });
+      }
+    });
+  }
+
+  const score = (line: SearchLine): number => {
+    switch (line.play.type) {
+      case "waste_to_foundation":
+      case "tableau_to_foundation":
+        return 0;
+      case "tableau_to_tableau":
+        return 1;
+      case "waste_to_tableau":
+      case "draw":
+        return 2;
+      case "foundation_to_tableau":
+        return 3;
+    }
+  };
+
+  // Stable sort: fewer draws first within a bucket
+  return lines
+    .map((line, i) => ({ line, i, score: score(line) }))
+    .sort((x, y) => x.score - y.score || x.line.draws - y.line.draws || x.i - y.i)
+    .map(x => x.line);
+}
+
+interface SearchFrame {
+  state: SolitaireState;
+  lines: SearchLine[];
+  next: number;
+  via: SearchLine | null;   // how we got here
+}
+
+/**
+ * Depth-first search for a winning line from `state` (draw-1 or draw-3,
+ * whatever the state was dealt with), skipping positions already seen.
+ * Only useful tableau and foundation-to-tableau moves are tried (see
+ * isUsefulTableauMove, isUsefulFoundationMove), so "unsolvable" means no
+ * win exists by such moves; past `maxNodes` positions it gives up.
+ */
+export function solveSolitaire(
+  state: SolitaireState,
+  options: SolitaireSolveOptions = {}
+): SolitaireSolution {
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+  const seen = new Set<string>([positionKey(state)]);
+  const stack: SearchFrame[] = [{ state, lines: candidateLines(state), next: 0, via: null }];
+
+  while (stack.length > 0) {
+    const frame = stack[stack.length - 1]!;
+
+    if (isSolitaireWon(frame.state)) {
+      const moves = stack.flatMap(({ via }): SolitaireAction[] =>
+        via ? [...Array.from({ length: via.draws }, () => DRAW), via.play] : []
+      );
+      return { status: "solved", moves, nodes: seen.size };
+    }
+
+    const line = frame.lines[frame.next++];
+    if (!line) {
+      stack.pop();
+      continue;
+    }
+
+    const child = applySolitaireAction(afterDraws(frame.state, line.draws), line.play);
+    const key = positionKey(child);
+    if (seen.has(key)) continue;
+
+    if (seen.size >= maxNodes) {
+      return { status: "gave-up", moves: [], nodes: seen.size };
+    }
+    seen.add(key);
+    stack.push({ state: child, lines: candidateLines(child), next: 0, via: line });
+  }
+
+  return { status: "unsolvable", moves: [], nodes: seen.size };
+}
+
+/**
+ * Deals until the solver proves a deal winnable, up to `maxDeals` tries or
+ * `maxTotalNodes` positions searched, whichever runs out first. A fixed
+ * seed in `config` only seeds the first deal (a custom rng just keeps
+ * dealing). Returns the last deal tried, with its failed search, if none
+ * could be proven.
+ */
+export function dealWinnableSolitaire(
+  config: SolitaireConfig = {},
+  options: SolitaireDealOptions = {}
+): { state: SolitaireState; solution: SolitaireSolution } {
+  const maxDeals = Math.max(1, options.maxDeals ?? DEFAULT_MAX_DEALS);
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES;
+  let budget = options.maxTotalNodes ?? maxNodes * maxDeals;
+
+  const solve = (s: SolitaireState): SolitaireSolution => {
+    const result = solveSolitaire(s, { maxNodes: Math.min(maxNodes, budget) });
+    budget -= result.nodes;
+    return result;
+  };
+
+  let state = initSolitaire(config);
+  let solution = solve(state);
+
+  for (let i = 1; i < maxDeals && budget > 0 && solution.status !== "solved"; i++) {
+    state = initSolitaire({ ...config, seed: randomSeed() });
+    solution = solve(state);
+  }
+
+  return { state, solution };
+}
@@ -0,0 +1,602 @@
+// src/core/solitaire.ts
+import { Card, Suit, createDeck, shuffle } from "./cards";
+import { Rng, createRng } from "./random";
+
+export interface SolitaireCard extends Card {
+  id: string;
+  faceUp: boolean;
+}
+
+export type SolitaireDrawCount = 1 | 3;
+
+// How taking a move back is treated: not at all, counted, or counted
+// and charged UNDO_PENALTY points
+export type SolitaireUndoRule = "free" | "count" | "penalize";
+
+export const UNDO_PENALTY = 5;
+
+// "standard" is Windows-style points for moves plus a time bonus; "vegas"
+// buys in for VEGAS_BUY_IN and pays per card up, "vegas-cumulative" carries
+// the bank from one game to the next
+export type SolitaireScoring = "standard" | "vegas" | "vegas-cumulative";
+
+export const VEGAS_BUY_IN = 52;
+
+// How often the waste may go back into the stock: as often as you like, or
+// a fixed number of passes through the deck, 3 for draw-3 and 1 for draw-1.
+// Set when the game is dealt.
+export type SolitairePassRule = "unlimited" | "limited";
+
+export interface SolitaireConfig {
+  seed?: number;                  // fixed seed to replay a deal
+  rng?: Rng;                      // custom random source (takes precedence over seed)
+  drawCount?: SolitaireDrawCount; // cards turned per draw, default 1
+  undoRule?: SolitaireUndoRule;   // default "free"
+  scoring?: SolitaireScoring;     // default "standard"
+  vegasBank?: number;             // bank carried into a "vegas-cumulative" game, default 0
+  passRule?: SolitairePassRule;   // default "unlimited"
+}
+
+export interface SolitaireState {
+  seed: number;                   // seed the deck was shuffled with
+  drawCount: SolitaireDrawCount;
+  undoRule: SolitaireUndoRule;
+  undos: number;                  // moves taken back (not counted under "free")
+  scoring: SolitaireScoring;
+  score: number;                  // points from moves; see solitaireScore for the total
+  passRule: SolitairePassRule;
+  maxPasses: number | null;       // passes allowed this deal (null: unlimited), fixed when dealt
+  pass: number;                   // pass through the stock, from 1; each recycle starts the next
+  stock: SolitaireCard[];         // face-down, top at end
+  waste: SolitaireCard[];         // face-up, top at end
+  tableau: SolitaireCard[][];     // 7 piles, top at end
+  foundations: Record<Suit, SolitaireCard[]>;
+  moves: number;
+  won: boolean;
+}
+
+export const FOUNDATION_SUITS: Suit[] = ["♠", "♥", "♦", "♣"];
+
+// ---- Rank / color helpers ----
+
+const rankOrder: Card["rank"][] = [
+  "A", "2", "3", "4", "5", "6", "7",
+  "8", "9", "10", "J", "Q", "K"
+];
+
+function getRankValue(rank: Card["rank"]): number {
+  const idx = rankOrder.indexOf(rank);
+  return idx === -1 ? 0 : idx + 1;
+}
+
+function isRedSuit(suit: Suit): boolean {
+  return suit === "♥" || suit === "♦";
+}
+
+function cloneState(s: SolitaireState): SolitaireState {
+  return {
+    ...s,
+    stock: [...s.stock],
+    waste: [...s.waste],
+    tableau: s.tableau.map(pile => [...pile]),
+    foundations: {
+      "♠": [...s.foundations["♠"]],
+      "♥": [...s.foundations["♥"]],
+      "♦": [...s.foundations["♦"]],
+      "♣": [...s.foundations["♣"]]
+    }
+  };
+}
+
+function makeFaceUp(c: SolitaireCard): SolitaireCard {
+  return { ...c, faceUp: true };
+}
+
+// Turn the new top card of a tableau pile face up after a move off it;
+// true if there was a card to turn
+function flipTop(pile: SolitaireCard[]): boolean {
+  const top = pile[pile.length - 1];
+  if (!top || top.faceUp) return false;
+  pile[pile.length - 1] = makeFaceUp(top);
+  return true;
+}
+
+// ---- Init ----
+
+export function initSolitaire(config: SolitaireConfig = {}): SolitaireState {
+  const rng = config.rng ?? createRng(config.seed);
+  const scoring = config.scoring ?? "standard";
+  const drawCount = config.drawCount ?? 1;
+  const passRule = config.passRule ?? "unlimited";
+  const cards: SolitaireCard[] = shuffle(createDeck(), rng).map((c, idx) => ({
+    ...c,
+    id: `c${idx}`,
+    faceUp: false
+  }));
+
+  // 7 tableau piles with growing sizes, top card of each face up
+  const tableau: SolitaireCard[][] = [];
+  let index = 0;
+  for (let col = 0; col < 7; col++) {
+    const pile = cards.slice(index, index + col + 1);
+    index += col + 1;
+    flipTop(pile);
+    tableau.push(pile);
+  }
+
+  return {
+    seed: rng.seed,
+    drawCount,
+    undoRule: config.undoRule ?? "free",
+    undos: 0,
+    scoring,
+    score: startingScore(scoring, config.vegasBank ?? 0),
+    passRule,
+    maxPasses: passRule === "limited" ? (drawCount === 3 ? 3 : 1) : null,
+    pass: 1,
+    stock: cards.slice(index), // remaining cards, all face down
+    waste: [],
+    tableau,
+    foundations: { "♠": [], "♥": [], "♦": [], "♣": [] },
+    moves: 0,
+    won: false
+  };
+}
+
+// ---- Actions ----
+
+// Moves up to a foundation need no target: each suit has its own pile
+export type SolitaireAction =
+  | { type: "draw" }   // turn cards from the stock, or recycle the waste when it's empty
+  | { type: "waste_to_tableau"; tableauIndex: number }
+  | { type: "waste_to_foundation" }
+  | { type: "tableau_to_tableau"; fromIndex: number; toIndex: number; cardId: string }
+  | { type: "tableau_to_foundation"; fromIndex: number }
+  | { type: "foundation_to_tableau"; suit: Suit; tableauIndex: number };
+
+// Why applySolitaireAction turned an action down
+export type SolitaireRejectionReason =
+  | "game-won"
+  | "no-such-pile"     // tableau index out of range
+  | "nothing-to-draw"  // stock and waste both empty
+  | "no-passes-left"   // stock empty and the pass limit is used up
+  | "empty-waste"
+  | "empty-foundation"
+  | "card-not-found"   // tableau move names a card that isn't in the pile
+  | "face-down"
+  | "same-pile"
+  | "needs-king"       // only Kings start an empty tableau pile
+  | "needs-ace"        // only Aces start an empty foundation
+  | "wrong-colour"
+  | "wrong-rank";
+
+export type SolitaireActionResult =
+  | { ok: true; state: SolitaireState }
+  | { ok: false; reason: SolitaireRejectionReason };
+
+export function isSolitaireWon(state: SolitaireState): boolean {
+  return FOUNDATION_SUITS.every(suit => state.foundations[suit].length === 13);
+}
+
+// Passes allowed through the stock this deal, Infinity when unlimited.
+// Switching the draw count mid-game doesn't change it.
+export function passLimit(state: Pick<SolitaireState, "maxPasses">): number {
+  return state.maxPasses ?? Infinity;
+}
+
+// Whether a draw would do anything: turn cards, or recycle a pass
+export function canDraw(state: SolitaireState): boolean {
+  if (state.stock.length > 0) return true;
+  return state.waste.length > 0 && state.pass < passLimit(state);
+}
+
+// ---- Rule helpers ----
+
+// Why `card` can't go on a tableau pile topped by `destTop` (null if it can)
+function tableauRejection(
+  destTop: SolitaireCard | undefined,
+  card: SolitaireCard
+): SolitaireRejectionReason | null {
+  const cRank = getRankValue(card.rank);
+
+  // Only a King may start an empty pile
+  if (!destTop) return cRank === 13 ? null : "needs-king";
+
+  if (isRedSuit(card.suit) === isRedSuit(destTop.suit)) return "wrong-colour";
+  return cRank === getRankValue(destTop.rank) - 1 ? null : "wrong-rank";
+}
+
+// Why `card` can't go up on its suit's foundation (null if it can)
+function foundationRejection(
+  state: SolitaireState,
+  card: SolitaireCard
+): SolitaireRejectionReason | null {
+  const pile = state.foundations[card.suit];
+  const top = pile[pile.length - 1];
+  const cRank = getRankValue(card.rank);
+
+  if (!top) return cRank === 1 ? null : "needs-ace";
+  return cRank === getRankValue(top.rank) + 1 ? null : "wrong-rank";
+}
+
+export function canMoveToFoundation(state: SolitaireState, card: SolitaireCard): boolean {
+  return foundationRejection(state, card) === null;
+}
+
+export function canMoveToTableau(
+  state: SolitaireState,
+  tableauIndex: number,
+  card: SolitaireCard
+): boolean {
+  const pile = state.tableau[tableauIndex];
+  return pile !== undefined && tableauRejection(pile[pile.length - 1], card) === null;
+}
+
+// ---- Main reducer ----
+
+/**
+ * Applies an action, or says why it can't be made. Rejections leave the
+ * state untouched; every accepted action counts as one move.
+ */
+export function trySolitaireAction(
+  state: SolitaireState,
+  action: SolitaireAction
+): SolitaireActionResult {
+  const reject = (reason: SolitaireRejectionReason): SolitaireActionResult => ({ ok: false, reason });
+
+  if (state.won) return reject("game-won");
+
+  const next = cloneState(state);
+  let points = 0;
+  const score = (event: ScoringEvent) => {
+    points += eventPoints(next, event);
+  };
+
+  const finalize = (): SolitaireActionResult => {
+    next.score += points;
+    next.moves += 1;
+    next.won = isSolitaireWon(next);
+    return { ok: true, state: next };
+  };
+
+  switch (action.type) {
+    case "draw": {
+      if (next.stock.length > 0) {
+        const count = Math.min(next.drawCount, next.stock.length);
+        for (let i = 0; i < count; i++) {
+          const c = next.stock.pop();
+          if (!c) break;
+          next.waste.push(makeFaceUp(c));
+        }
+      } else if (next.waste.length > 0) {
+        if (next.pass >= passLimit(next)) return reject("no-passes-left");
+
+        // Recycle waste back to stock face-down
+        next.pass += 1;
+        next.stock = [...next.waste].reverse().map(c => ({ ...c, faceUp: false }));
+        next.waste = [];
+        score("recycle");
+      } else {
+        return reject("nothing-to-draw");
+      }
+      return finalize();
+    }
+
+    case "waste_to_tableau": {
+      const dest = next.tableau[action.tableauIndex];
+      if (!dest) return reject("no-such-pile");
+      const top = next.waste[next.waste.length - 1];
+      if (!top) return reject("empty-waste");
+
+      const rejection = tableauRejection(dest[dest.length - 1], top);
+      if (rejection) return reject(rejection);
+
+      next.waste.pop();
+      dest.push(top);
+      score("waste-to-tableau");
+      return finalize();
+    }
+
+    case "waste_to_foundation": {
+      const top = next.waste[next.waste.length - 1];
+      if (!top) return reject("empty-waste");
+
+      const rejection = foundationRejection(next, top);
+      if (rejection) return reject(rejection);
+
+      next.waste.pop();
+      next.foundations[top.suit].push(top);
+      score("to-foundation");
+      return finalize();
+    }
+
+    case "tableau_to_tableau": {
+      const fromPile = next.tableau[action.fromIndex];
+      const toPile = next.tableau[action.toIndex];
+      if (!fromPile || !toPile) return reject("no-such-pile");
+      if (action.fromIndex === action.toIndex) return reject("same-pile");
+
+      const idx = fromPile.findIndex(c => c.id === action.cardId);
+      const first = fromPile[idx];
+      if (!first) return reject("card-not-found");
+      if (!first.faceUp) return reject("face-down");
+
+      const rejection = tableauRejection(toPile[toPile.length - 1], first);
+      if (rejection) return reject(rejection);
+
+      // The card moves together with everything on top of it
+      toPile.push(...fromPile.splice(idx));
+      if (flipTop(fromPile)) score("turn-over");
+      return finalize();
+    }
+
+    case "tableau_to_foundation": {
+      const fromPile = next.tableau[action.fromIndex];
+      if (!fromPile) return reject("no-such-pile");
+
+      const top = fromPile[fromPile.length - 1];
+      if (!top) return reject("card-not-found");
+      if (!top.faceUp) return reject("face-down");
+
+      const rejection = foundationRejection(next, top);
+      if (rejection) return reject(rejection);
+
+      fromPile.pop();
+      next.foundations[top.suit].push(top);
+      score("to-foundation");
+      if (flipTop(fromPile)) score("turn-over");
+      return finalize();
+    }
+
+    case "foundation_to_tableau": {
+      const dest = next.tableau[action.tableauIndex];
+      if (!dest) return reject("no-such-pile");
+      const fromPile = next.foundations[action.suit];
+      const top = fromPile[fromPile.length - 1];
+      if (!top) return reject("empty-foundation");
+
+      const rejection = tableauRejection(dest[dest.length - 1], top);
+      if (rejection) return reject(rejection);
+
+      fromPile.pop();
+      dest.push(top);
+      score("foundation-to-tableau");
+      return finalize();
+    }
+  }
+}
+
+// Same as trySolitaireAction, but returns `state` unchanged on a rejection
+export function applySolitaireAction(
+  state: SolitaireState,
+  action: SolitaireAction
+): SolitaireState {
+  const result = trySolitaireAction(state, action);
+  return result.ok ? result.state : state;
+}
+
+// Short explanation for the player, e.g. "Only a King can start an empty pile"
+export function describeSolitaireRejection(reason: SolitaireRejectionReason): string {
+  switch (reason) {
+    case "game-won": return "The game is already won";
+    case "no-such-pile": return "There's no pile there";
+    case "nothing-to-draw": return "The stock and waste are both empty";
+    case "no-passes-left": return "No passes through the stock left";
+    case "empty-waste": return "The waste pile is empty";
+    case "empty-foundation": return "That foundation is empty";
+    case "card-not-found": return "That card isn't in the pile any more";
+    case "face-down": return "That card is face down";
+    case "same-pile": return "The cards are already on that pile";
+    case "needs-king": return "Only a King can start an empty pile";
+    case "needs-ace": return "Only an Ace can start a foundation";
+    case "wrong-colour": return "Tableau cards must alternate colours";
+    case "wrong-rank": return "Wrong rank: build one step at a time";
+  }
+}
+
+// ---- Legal actions ----
+
+/**
+ * Every action that can be made right now, in a stable order: waste, then
+ * tableau moves, then cards back off the foundations, then drawing. Each
+ * one is accepted by applySolitaireAction. Empty once the game is won.
+ */
+export function getLegalActions(state: SolitaireState): SolitaireAction[] {
+  if (state.won) return [];
+
+  const actions: SolitaireAction[] = [];
+  const tableauFor = (card: SolitaireCard, except = -1): number[] =>
+    state.tableau.flatMap((pile, i) =>
+      i !== except && tableauRejection(pile[pile.length - 1], card) === null ? [i] : []
+    );
+
+  const wasteTop = state.waste[state.waste.length - 1];
+  if (wasteTop) {
+    if (canMoveToFoundation(state, wasteTop)) {
+      actions.push({ type: "waste_to_foundation" });
+    }
+    for (const tableauIndex of tableauFor(wasteTop)) {
+      actions.push({ type: "waste_to_tableau", tableauIndex });
+    }
+  }
+
+  state.tableau.forEach((pile, fromIndex) => {
+    const top = pile[pile.length - 1];
+    if (top && top.faceUp && canMoveToFoundation(state, top)) {
+      actions.push({ type: "tableau_to_foundation", fromIndex });
+    }
+
+    for (const card of pile) {
+      if (!card.faceUp) continue;
+      for (const toIndex of tableauFor(card, fromIndex)) {
+        actions.push({ type: "tableau_to_tableau", fromIndex, toIndex, cardId: card.id });
+      }
+    }
+  });
+
+  for (const suit of FOUNDATION_SUITS) {
+    const pile = state.foundations[suit];
+    const top = pile[pile.length - 1];
+    if (!top) continue;
+    for (const tableauIndex of tableauFor(top)) {
+      actions.push({ type: "foundation_to_tableau", suit, tableauIndex });
+    }
+  }
+
+  if (canDraw(state)) {
+    actions.push({ type: "draw" });
+  }
+
+  return actions;
+}
+
+// ---- Hints ----
+
+// Hints suggest moves in this order, like Nerts bots pick theirs
+const HINT_PRIORITY: SolitaireAction["type"][] = [
+  "tableau_to_foundation",
+  "waste_to_foundation",
+  "tableau_to_tableau",
+  "waste_to_tableau",
+  "draw",
+  "foundation_to_tableau"
+];
+
+// Tableau moves are only worth suggesting when they turn over a card or
+// clear a pile, not to shuffle a run between two equal parents
+function opensPile(state: SolitaireState, action: SolitaireAction): boolean {
+  if (action.type !== "tableau_to_tableau") return true;
+
+  const pile = state.tableau[action.fromIndex] ?? [];
+  const idx = pile.findIndex(c => c.id === action.cardId);
+  const below = pile[idx - 1];
+  if (!below) return (state.tableau[action.toIndex] ?? []).length > 0;
+  return !below.faceUp;
+}
+
+/**
+ * Moves worth making, best first: legal moves in HINT_PRIORITY order
+ * (ties keep getLegalActions order). Cards only come back off the
+ * foundations when nothing else is left. Hints walk the list.
+ */
+export function rankSolitaireMoves(state: SolitaireState): SolitaireAction[] {
+  const ranked = getLegalActions(state)
+    .filter(a => opensPile(state, a))
+    .sort((a, b) => HINT_PRIORITY.indexOf(a.type) - HINT_PRIORITY.indexOf(b.type));
+
+  const forward = ranked.filter(a => a.type !== "foundation_to_tableau");
+  return forward.length > 0 ? forward : ranked;
+}
+
+// ---- Undo ----
+
+// Table settings changed mid-game stay as they are when moves are undone
+// or redone; only the cards go back
+function keepSettings(restored: SolitaireState, left: SolitaireState): SolitaireState {
+  return {
+    ...restored,
+    drawCount: left.drawCount,
+    undoRule: left.undoRule,
+    passRule: left.passRule,
+    maxPasses: left.maxPasses
+  };
+}
+
+// HistoryCarry for undo: the restored position keeps the settings and the
+// running undo count, plus this one unless undos are free
+export function countUndo(restored: SolitaireState, left: SolitaireState): SolitaireState {
+  const undos = left.undos + (left.undoRule === "free" ? 0 : 1);
+  return { ...keepSettings(restored, left), undos };
+}
+
+// HistoryCarry for redo: replaying a move doesn't give an undo back
+export function keepUndoCount(restored: SolitaireState, left: SolitaireState): SolitaireState {
+  return { ...keepSettings(restored, left), undos: left.undos };
+}
+
+// Points lost to undos so far
+export function undoPenalty(state: SolitaireState): number {
+  return state.undoRule === "penalize" ? state.undos * UNDO_PENALTY : 0;
+}
+
+// ---- Scoring ----
+
+// Standard scoring loses STANDARD_TIME_PENALTY points every 10 seconds, and
+// a win in 30 seconds or more earns STANDARD_TIME_BONUS / seconds
+export const STANDARD_TIME_PENALTY = 2;
+export const STANDARD_TIME_BONUS = 700_000;
+
+type ScoringEvent =
+  | "waste-to-tableau"
+  | "to-foundation"
+  | "foundation-to-tableau"
+  | "turn-over"      // a face-down tableau card turned up
+  | "recycle";       // waste turned back into the stock
+
+function eventPoints(state: SolitaireState, event: ScoringEvent): number {
+  if (state.scoring === "standard") {
+    switch (event) {
+      case "waste-to-tableau": return 5;
+      case "to-foundation": return 10;
+      case "foundation-to-tableau": return -15;
+      case "turn-over": return 5;
+      case "recycle": return state.drawCount === 1 ? -100 : -20;
+    }
+  }
+  // Vegas only pays for cards on the foundations
+  switch (event) {
+    case "to-foundation": return 5;
+    case "foundation-to-tableau": return -5;
+    default: return 0;
+  }
+}
+
+function startingScore(scoring: SolitaireScoring, vegasBank: number): number {
+  switch (scoring) {
+    case "standard": return 0;
+    case "vegas": return -VEGAS_BUY_IN;
+    case "vegas-cumulative": return vegasBank - VEGAS_BUY_IN;
+  }
+}
+
+/**
+ * The score to show after `elapsedMs` of play: move points less any undo
+ * penalty, and for standard scoring the time penalty and win bonus too
+ * (never below 0). Vegas scores are money and can go negative; under
+ * "vegas-cumulative" this is also the bank to carry into the next game.
+ */
+export function solitaireScore(state: SolitaireState, elapsedMs = 0): number {
+  const score = state.score - undoPenalty(state);
+  if (state.scoring !== "standard") return score;
+
+  const seconds = Math.floor(elapsedMs / 1000);
+  const timePenalty = STANDARD_TIME_PENALTY * Math.floor(seconds / 10);
+  const bonus = state.won && seconds >= 30 ? Math.floor(STANDARD_TIME_BONUS / seconds) : 0;
+  return Math.max(0, score - timePenalty + bonus);
+}
+
+// ---- Auto-complete ----
+
+// Nothing left to uncover: no stock and no face-down cards anywhere
+export function canAutoComplete(state: SolitaireState): boolean {
+  if (state.won || state.stock.length > 0) return false;
+  if (state.waste.some(c => !c.faceUp)) return false;
+  return state.tableau.every(pile => pile.every(c => c.faceUp));
+}
+
+/**
+ * Keeps moving the waste top, then the first playable tableau top, up to
+ * the foundations until nothing moves. Each card counts as one move.
+ */
+export function autoComplete(state: SolitaireState): SolitaireState {
+  if (!canAutoComplete(state)) return state;
+
+  let s = state;
+  for (;;) {
+    const up = getLegalActions(s).find(
+      a => a.type === "waste_to_foundation" || a.type === "tableau_to_foundation"
+    );
+    if (!up) return s;
+    s = applySolitaireAction(s, up);
+  }
+}
@@ -3,203 +3,377 @@ import React, { useMemo, useState } from "react";
 import {
   BlackjackState,
   BlackjackConfig,
-  initBlackjack,
-  hit,
-  stand,
-  nextPlayer,
-  handScore,
-  isBusted,
-  dealerAutoPlay,
-  botAutoPlay,
-  allNonDealerDone
+  placeBet,
+  betError,
+  placeSideBet,
+  sideBetError,
+  sideBetLabel,
+  describeSideBetResult,
+  BlackjackSideBet,
+  DEFAULT_PERFECT_PAIRS_PAYTABLE,
+  DEFAULT_TWENTY_ONE_PLUS_THREE_PAYTABLE,
+  dealHands,
+  BlackjackHand,
+  BlackjackHandResult,
+  BlackjackRules,
+  BlackjackPayout,
+  BlackjackDoubleOn,
+  DEFAULT_BLACKJACK_RULES,
+  MAX_SEATS,
+  BLACKJACK_STRATEGIES,
+  BlackjackStrategyName,
+  BlackjackCountingSystemName,
+  countCards,
+  countingSystemLabel,
+  shoeView,
+  BlackjackAction,
+  applyBlackjackAction,
+  describeRules,
+  settleBlackjackRound,
+  describeHandResult,
+  dealerHand,
+  handStatusLabel,
+  visibleDealerCards,
+  getLegalActions,
+  takeInsurance,
+  declineInsurance,
+  evaluateHand,
+  describeHandValue,
+  describeBlackjackEvent,
+  nextTurn,
+  advance
 } from "../core/blackjack";
+import {
+  BlackjackGrade,
+  BlackjackTrainerStats,
+  DRILL_CATEGORIES,
+  emptyTrainerStats,
+  gradeDecision,
+  recordGrade,
+  stackDrillDeal,
+  trainerAccuracy,
+  weakestCategories
+} from "../core/blackjack-trainer";
+import {
+  BlackjackSession,
+  createSession,
+  updateTable,
+  recordRound,
+  nextSessionRound,
+  joinSession,
+  leaveSession,
+  playerStats,
+  replayRound
+} from "../core/blackjack-session";
+import { createRng, deriveSeed } from "../core/random";
 import { CardView } from "./components/CardView";
 
-// Auto-play bots & dealer until it's a human's turn or the game ends
-function advanceNonHumanTurns(state: BlackjackState): BlackjackState {
-  let s = state;
-
-  while (!s.finished) {
-    // If all non-dealers are done, let dealer resolve
-    if (allNonDealerDone(s)) {
-      s = dealerAutoPlay(s);
-      break;
-    }
-
-    const current = s.players[s.currentPlayerIndex];
-    if (!current) break;
-
-    // Dealer's turn → auto-play and stop
-    if (current.isDealer) {
-      s = dealerAutoPlay(s);
-      break;
-    }
-
-    const done =
-      current.busted ||
-      current.standing ||
-      current.hasTwentyOne ||
-      current.isBlackjack;
-
-    // Human
-    if (!current.isBot) {
-      if (done) {
-        s = nextPlayer(s);
-        continue;
-      }
-      break; // human who needs to act
-    }
-
-    // Bot
-    if (done) {
-      s = nextPlayer(s);
-      continue;
-    }
-
-    s = botAutoPlay(s);
-    s = nextPlayer(s);
-  }
-
-  return s;
-}
-
 const defaultConfig: BlackjackConfig = {
   numHumans: 1,
   numBots: 2,
   humanNames: ["You"],
   botNames: ["Bot 1", "Bot 2"],
-  dealerName: "Dealer"
+  botStrategies: ["basic", "basic"],
+  dealerName: "Dealer",
+  penetration: 0.75,
+  startingBankroll: 1000,
+  minBet: 10,
+  maxBet: 500,
+  rules: DEFAULT_BLACKJACK_RULES
 };
 
 const BlackjackView: React.FC = () => {
   const [config, setConfig] = useState<BlackjackConfig>(defaultConfig);
 
-  const [state, setState] = useState<BlackjackState>(() =>
-    advanceNonHumanTurns(initBlackjack(config))
+  // The session keeps seats, bankrolls, shoe and stats across rounds
+  const [session, setSession] = useState<BlackjackSession>(() => createSession(config));
+  const state = session.table;
+
+  // Every table change goes through the session, so a finished round is
+  // counted in the stats as soon as it settles
+  const setState = (update: BlackjackState | ((prev: BlackjackState) => BlackjackState)) => {
+    setSession(prev =>
+      recordRound(updateTable(prev, t => (typeof update === "function" ? update(t) : update)))
+    );
+  };
+
+  const [joinName, setJoinName] = useState("");
+
+  // Bet amounts typed per seat during the betting phase
+  const [betInputs, setBetInputs] = useState<Record<number, string>>({});
+  const [sideInputs, setSideInputs] = useState<Record<string, string>>({}); // "seat:bet"
+  const [betMessage, setBetMessage] = useState<string | null>(null);
+
+  // Count trainer overlay: off by default so it doesn't give the game away
+  const [showCount, setShowCount] = useState(false);
+  const [countSystem, setCountSystem] = useState<BlackjackCountingSystemName>("hi-lo");
+
+  // Basic-strategy trainer: grades each human decision for this session;
+  // drill mode stacks the deal with the hands you miss most
+  const [trainerOn, setTrainerOn] = useState(false);
+  const [drillOn, setDrillOn] = useState(false);
+  const [trainerStats, setTrainerStats] = useState<BlackjackTrainerStats>(emptyTrainerStats);
+  const [lastGrade, setLastGrade] = useState<BlackjackGrade | null>(null);
+
+  // Round history: the recorded round being replayed and how many of its
+  // events have been applied
+  const [historyRound, setHistoryRound] = useState<number | null>(null);
+  const [historyStep, setHistoryStep] = useState(0);
+  const historyStates = useMemo(
+    () => (historyRound === null ? [] : replayRound(session, historyRound)),
+    // replays only depend on the recorded rounds, not the live table
+    [session.config, session.history, historyRound]
   );
+  const historyLog = session.history.find(h => h.round === historyRound)?.log ?? [];
+  const historyState = historyStates[historyStep];
+
+  const openHistoryRound = (round: number | null) => {
+    setHistoryRound(round);
+    setHistoryStep(0);
+  };
 
   const current = state.players[state.currentPlayerIndex];
+  const finished = state.phase === "finished";
 
-  const canAct = useMemo(() => {
-    if (!current || state.finished) return false;
-    if (current.isDealer || current.isBot) return false;
-    if (current.busted || current.standing || current.hasTwentyOne || current.isBlackjack) {
-      return false;
-    }
-    return true;
-  }, [current, state.finished]);
+  // What the engine is waiting for; only an "act" turn enables the buttons
+  const turn = useMemo(() => nextTurn(state), [state]);
+  const actions = turn.kind === "act" ? turn.actions : [];
+  const canAct = actions.length > 0;
 
   // End-of-round summary
   const endResults = useMemo(() => {
-    if (!state.finished) return null;
+    if (!finished) return null;
     if (state.players.length === 0) return null;
 
-    const dealer = state.players[0];
-    if (!dealer) return null;
+    const dealer = dealerHand(state);
+    const result = settleBlackjackRound(state);
 
-    const dealerScore = isBusted(dealer.hand) ? 0 : handScore(dealer.hand);
-    const dealerFlag =
-      dealer.isBlackjack ? "BLACKJACK" :
-      dealer.hasTwentyOne ? "21" :
-      isBusted(dealer.hand) ? "BUST" :
-      "";
+    const dealerFlag = handStatusLabel(dealer);
 
-    const players = state.players.slice(1).map((p, idx) => {
-      const score = isBusted(p.hand) ? 0 : handScore(p.hand);
-      const flag =
-        p.isBlackjack ? "BLACKJACK" :
-        p.hasTwentyOne ? "21" :
-        isBusted(p.hand) ? "BUST" :
-        p.standing ? "STAND" :
-        "";
-
-      let result: string;
-
-      if (isBusted(p.hand)) {
-        if (isBusted(dealer.hand)) {
-          result = "LOSE (both bust – house wins)";
-        } else {
-          result = "LOSE (bust)";
-        }
-      } else if (isBusted(dealer.hand)) {
-        result = "WIN (dealer bust)";
-      } else if (p.isBlackjack && !dealer.isBlackjack) {
-        result = "WIN (natural blackjack)";
-      } else if (dealer.isBlackjack && !p.isBlackjack) {
-        result = "LOSE (dealer blackjack)";
-      } else if (score > dealerScore) {
-        result = "WIN";
-      } else if (score < dealerScore) {
-        result = "LOSE";
-      } else {
-        if (p.hasTwentyOne && !dealer.hasTwentyOne) {
-          result = "WIN (21 beats equal score)";
-        } else if (dealer.hasTwentyOne && !p.hasTwentyOne) {
-          result = "LOSE (dealer 21 beats equal score)";
-        } else {
-          result = "PUSH";
-        }
-      }
+    const describeHand = (h: BlackjackHand, r: BlackjackHandResult) => {
+      return {
+        score: r.score,
+        flag: handStatusLabel(h),
+        result: describeHandResult(r),
+        outcome: r.outcome,
+        bet: r.bet
+      };
+    };
 
+    const players = state.players.slice(1).map((p, idx) => {
       const who = p.isBot ? `Bot (${p.id})` : `Player (${p.id})`;
+      const seat = result.seats.find(r => r.playerIndex === idx + 1);
 
       return {
         label: who,
         seatIndex: idx + 1,
-        score,
-        flag,
-        result
+        hands: p.hands.flatMap((h, i) => {
+          const r = seat?.hands[i];
+          return r ? [describeHand(h, r)] : [];
+        }),
+        net: seat?.net ?? 0,
+        bankroll: p.bankroll
       };
     });
 
     return {
       dealer: {
         label: config.dealerName ?? "Dealer",
-        score: dealerScore,
+        score: result.dealerScore,
         flag: dealerFlag
       },
       players
     };
-  }, [state, config.dealerName]);
+  }, [state, finished, config.dealerName]);
 
-  const handleNewGame = () => {
-    setState(advanceNonHumanTurns(initBlackjack(config)));
+  // Same table, shoe and bankrolls; back to the betting phase
+  const handleNewDeal = () => {
+    setSession(prev => nextSessionRound(prev));
+    setBetMessage(null);
   };
 
+  // Place every typed human bet, then close betting and deal.
+  // Blank or 0 sits the seat out for this round.
+  const handleDeal = () => {
+    let s = state;
+
+    for (let idx = 1; idx < s.players.length; idx++) {
+      const p = s.players[idx];
+      if (!p || p.isBot) continue;
+
+      const raw = (betInputs[idx] ?? "").trim();
+      if (raw === "" || raw === "0") continue;
+
+      const amount = Number(raw);
+      const error = betError(s, idx, amount);
+      if (error) {
+        setBetMessage(`${p.id}: ${error}`);
+        return;
+      }
+      s = placeBet(s, idx, amount);
+
+      for (const bet of offeredSideBets) {
+        const side = Number((sideInputs[`${idx}:${bet}`] ?? "").trim() || 0);
+        const sideError = sideBetError(s, idx, bet, side);
+        if (sideError) {
+          setBetMessage(`${p.id} (${sideBetLabel(bet)}): ${sideError}`);
+          return;
+        }
+        s = placeSideBet(s, idx, bet, side);
+      }
+    }
+
+    // Drill: stack the first human seat with a weak (or random) hand
+    const drillSeat = s.players.findIndex(p => !p.isDealer && !p.isBot && p.bet > 0);
+    if (trainerOn && drillOn && drillSeat > 0) {
+      const rng = createRng(deriveSeed(s.seed, s.round));
+      const weak = weakestCategories(trainerStats);
+      const pool = weak.length ? weak : DRILL_CATEGORIES;
+      const category = pool[Math.floor(rng.next() * pool.length)] ?? "hard 16";
+      s = stackDrillDeal(s, drillSeat, category, rng);
+    }
+
+    setBetMessage(null);
+    setLastGrade(null);
+    setState(advance(dealHands(s)));
+  };
+
+  const handleInsurance = (idx: number, take: boolean) => () => {
+    setState(prev =>
+      advance(take ? takeInsurance(prev, idx) : declineInsurance(prev, idx))
+    );
+  };
+
+  const handleSideInput = (idx: number, bet: BlackjackSideBet) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const value = e.target.value;
+      setSideInputs(prev => ({ ...prev, [`${idx}:${bet}`]: value }));
+    };
+
+  const handleBetInput = (idx: number) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const value = e.target.value;
+      setBetInputs(prev => ({ ...prev, [idx]: value }));
+    };
+
+  // Humans and bots share the table's seats.
+  const seatsLeft = (field: "numHumans" | "numBots") =>
+    MAX_SEATS - (field === "numHumans" ? config.numBots ?? 0 : config.numHumans);
+
   const handleConfigChange = (field: "numHumans" | "numBots") =>
     (e: React.ChangeEvent<HTMLInputElement>) => {
-      const value = Math.max(0, Number(e.target.value) || 0);
+      const value = Math.min(Math.max(0, Number(e.target.value) || 0), seatsLeft(field));
       setConfig(prev => ({
         ...prev,
         [field]: value
       }));
     };
 
-  const applyConfigAndRestart = () => {
-    setState(advanceNonHumanTurns(initBlackjack(config)));
+  const botStrategyName = (i: number): BlackjackStrategyName => {
+    const strategy = config.botStrategies?.[i];
+    return typeof strategy === "string" ? strategy : "basic";
+  };
+
+  const handleBotStrategyChange = (i: number) =>
+    (e: React.ChangeEvent<HTMLSelectElement>) => {
+      const value = e.target.value as BlackjackStrategyName;
+      setConfig(prev => {
+        const botStrategies = [...(prev.botStrategies ?? [])];
+        for (let j = 0; j <= i; j++) botStrategies[j] ??= "basic";
+        botStrategies[i] = value;
+        return { ...prev, botStrategies };
+      });
+    };
+
+  // House rules only take effect on "Apply & New Game"
+  const rules: BlackjackRules = { ...DEFAULT_BLACKJACK_RULES, ...config.rules };
+
+  const setRule = <K extends keyof BlackjackRules>(key: K, value: BlackjackRules[K]) => {
+    setConfig(prev => ({ ...prev, rules: { ...prev.rules, [key]: value } }));
   };
 
-  const handleHit = () => {
-    if (!canAct || !current) return;
-    setState(prev => {
-      let s = hit(prev);
-      const now = s.players[s.currentPlayerIndex];
-      if (now && (now.busted || now.standing || now.hasTwentyOne || now.isBlackjack)) {
-        s = nextPlayer(s);
+  // Side bets are switched on with the standard paytables
+  const handleSideBetToggle = (bet: BlackjackSideBet) =>
+    (e: React.ChangeEvent<HTMLInputElement>) => {
+      const on = e.target.checked;
+      if (bet === "perfectPairs") {
+        setRule("perfectPairs", on ? DEFAULT_PERFECT_PAIRS_PAYTABLE : null);
+      } else {
+        setRule("twentyOnePlusThree", on ? DEFAULT_TWENTY_ONE_PLUS_THREE_PAYTABLE : null);
       }
-      return advanceNonHumanTurns(s);
+    };
+
+  const handleRuleToggle = (
+    key: "dealerHitsSoft17" | "doubleAfterSplit" | "lateSurrender" | "twentyOneBeatsEqualScore"
+  ) => (e: React.ChangeEvent<HTMLInputElement>) => setRule(key, e.target.checked);
+
+  // Blank = fresh random seed each deal; a number replays that exact deal
+  const handleSeedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const raw = e.target.value.trim();
+    setConfig(prev => {
+      const { seed: _prevSeed, ...rest } = prev;
+      const value = Number(raw);
+      return raw === "" || !Number.isFinite(value) ? rest : { ...rest, seed: value };
     });
   };
 
-  const handleStand = () => {
-    if (!canAct || !current) return;
-    setState(prev => {
-      let s = stand(prev);
-      s = nextPlayer(s);
-      return advanceNonHumanTurns(s);
-    });
+  const applyConfigAndRestart = () => {
+    setSession(createSession(config));
+    openHistoryRound(null);
+    setBetInputs({});
+    setSideInputs({});
+    setBetMessage(null);
   };
 
+  // Apply a human action, then let bots/dealer catch up to the next human
+  const handleAction = (action: BlackjackAction) => () => {
+    if (!actions.includes(action)) return;
+
+    if (trainerOn) {
+      const grade = gradeDecision(state, action);
+      if (grade) {
+        setLastGrade(grade);
+        setTrainerStats(prev => recordGrade(prev, grade));
+      }
+    }
+
+    setState(prev => advance(applyBlackjackAction(prev, action)));
+  };
+
+  const handleHit = handleAction("hit");
+  const handleStand = handleAction("stand");
+  const handleDouble = handleAction("double");
+  const handleSplit = handleAction("split");
+  const handleSurrender = handleAction("surrender");
+
+  const weakSpots = weakestCategories(trainerStats);
+
+  const offeredSideBets = (["perfectPairs", "twentyOnePlusThree"] as const)
+    .filter(bet => state.rules[bet] !== null);
+
+  // Seats change only between rounds; bet inputs are keyed by seat index
+  const handleJoin = (bot: boolean) => () => {
+    const name = joinName.trim();
+    setSession(prev =>
+      joinSession(prev, bot ? { name, strategy: "basic" } : { name })
+    );
+    setJoinName("");
+    setBetInputs({});
+    setSideInputs({});
+  };
+
+  const handleLeave = (playerId: string) => () => {
+    setSession(prev => leaveSession(prev, playerId));
+    setBetInputs({});
+    setSideInputs({});
+  };
+
+  const count = showCount ? countCards(countSystem, shoeView(state)) : null;
+
+  const doubleAllowed = actions.includes("double");
+  const splitAllowed = actions.includes("split");
+  const surrenderAllowed = actions.includes("surrender");
+
   return (
     <>
       {/* Config panel */}
@@ -222,7 +396,7 @@ const BlackjackView: React.FC = () => {
           <input
             type="number"
             min={0}
-            max={4}
+            max={Math.min(4, seatsLeft("numHumans"))}
             value={config.numHumans}
             onChange={handleConfigChange("numHumans")}
             style={{
@@ -243,7 +417,7 @@ const BlackjackView: React.FC = () => {
           <input
             type="number"
             min={0}
-            max={5}
+            max={Math.min(5, seatsLeft("numBots"))}
             value={config.numBots ?? 0}
             onChange={handleConfigChange("numBots")}
             style={{
@@ -257,6 +431,149 @@ const BlackjackView: React.FC = () => {
           />
         </div>
 
+        {(config.numBots ?? 0) > 0 && (
+          <div>
+            <label style={{ display: "block", fontSize: 14, marginBottom: 4 }}>
+              Bot strategies
+            </label>
+            <div style={{ display: "flex", gap: "0.35rem" }}>
+              {Array.from({ length: config.numBots ?? 0 }, (_, i) => (
+                <select
+                  key={i}
+                  value={botStrategyName(i)}
+                  onChange={handleBotStrategyChange(i)}
+                  title={`Bot ${i + 1}`}
+                  style={{
+                    padding: "0.3rem 0.4rem",
+                    borderRadius: 4,
+                    border: "1px solid #4a5568",
+                    background: "#0b1020",
+                    color: "#f5f5f5"
+                  }}
+                >
+                  {(Object.keys(BLACKJACK_STRATEGIES) as BlackjackStrategyName[]).map(name => (
+                    <option key={name} value={name}>
+                      {BLACKJACK_STRATEGIES[name].name}
+                    </option>
+                  ))}
+                </select>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div>
+          <label style={{ display: "block", fontSize: 14, marginBottom: 4 }}>
+            Decks
+          </label>
+          <input
+            type="number"
+            min={1}
+            max={8}
+            value={rules.numDecks}
+            onChange={e =>
+              setRule("numDecks", Math.min(8, Math.max(1, Number(e.target.value) || 1)))
+            }
+            style={{
+              width: 80,
+              padding: "0.3rem 0.4rem",
+              borderRadius: 4,
+              border: "1px solid #4a5568",
+              background: "#0b1020",
+              color: "#f5f5f5"
+            }}
+          />
+        </div>
+
+        <div>
+          <label style={{ display: "block", fontSize: 14, marginBottom: 4 }}>
+            Seed
+          </label>
+          <input
+            type="text"
+            inputMode="numeric"
+            placeholder="random"
+            value={config.seed ?? ""}
+            onChange={handleSeedChange}
+            style={{
+              width: 110,
+              padding: "0.3rem 0.4rem",
+              borderRadius: 4,
+              border: "1px solid #4a5568",
+              background: "#0b1020",
+              color: "#f5f5f5"
+            }}
+          />
+        </div>
+
+        <div>
+          <label style={{ display: "block", fontSize: 14, marginBottom: 4 }}>
+            Blackjack pays
+          </label>
+          <select
+            value={rules.blackjackPayout}
+            onChange={e => setRule("blackjackPayout", e.target.value as BlackjackPayout)}
+            style={{
+              padding: "0.3rem 0.4rem",
+              borderRadius: 4,
+              border: "1px solid #4a5568",
+              background: "#0b1020",
+              color: "#f5f5f5"
+            }}
+          >
+            <option value="3:2">3:2</option>
+            <option value="6:5">6:5</option>
+          </select>
+        </div>
+
+        <div>
+          <label style={{ display: "block", fontSize: 14, marginBottom: 4 }}>
+            Double on
+          </label>
+          <select
+            value={rules.doubleOn}
+            onChange={e => setRule("doubleOn", e.target.value as BlackjackDoubleOn)}
+            style={{
+              padding: "0.3rem 0.4rem",
+              borderRadius: 4,
+              border: "1px solid #4a5568",
+              background: "#0b1020",
+              color: "#f5f5f5"
+            }}
+          >
+            <option value="any">any two cards</option>
+            <option value="9-11">9–11 only</option>
+            <option value="10-11">10–11 only</option>
+          </select>
+        </div>
+
+        <div style={{ display: "grid", gap: "0.2rem", fontSize: 13, color: "#e2e8f0" }}>
+          {([
+            ["dealerHitsSoft17", "Dealer hits soft 17"],
+            ["doubleAfterSplit", "Double after split"],
+            ["lateSurrender", "Late surrender"],
+            ["twentyOneBeatsEqualScore", "21 beats dealer 21"]
+          ] as const).map(([key, label]) => (
+            <label key={key} style={{ display: "flex", alignItems: "center", gap: "0.35rem" }}>
+              <input type="checkbox" checked={rules[key]} onChange={handleRuleToggle(key)} />
+              {label}
+            </label>
+          ))}
+        </div>
+
+        <div style={{ display: "grid", gap: "0.2rem", fontSize: 13, color: "#e2e8f0" }}>
+          {(["perfectPairs", "twentyOnePlusThree"] as const).map(bet => (
+            <label key={bet} style={{ display: "flex", alignItems: "center", gap: "0.35rem" }}>
+              <input
+                type="checkbox"
+                checked={rules[bet] !== null}
+                onChange={handleSideBetToggle(bet)}
+              />
+              {sideBetLabel(bet)} side bet
+            </label>
+          ))}
+        </div>
+
         <button
           onClick={applyConfigAndRestart}
           style={{
@@ -273,18 +590,28 @@ const BlackjackView: React.FC = () => {
         </button>
 
         <button
-          onClick={handleNewGame}
+          onClick={handleNewDeal}
+          disabled={!finished}
           style={{
             padding: "0.45rem 0.9rem",
             borderRadius: 6,
             border: "1px solid #4a5568",
             background: "transparent",
-            color: "#e2e8f0",
-            cursor: "pointer"
+            color: finished ? "#e2e8f0" : "#4a5568",
+            cursor: finished ? "pointer" : "not-allowed"
           }}
         >
           New Deal
         </button>
+
+        <span style={{ marginLeft: "auto", fontSize: 12, color: "#718096", textAlign: "right" }}>
+          Round {state.round} · {state.shoe.cards.length} cards in shoe (cut at {state.shoe.cutCard})
+          {state.reshuffled && " · fresh shuffle"}
+          <br />
+          Seed {state.seed}
+          <br />
+          {describeRules(state.rules)}
+        </span>
       </section>
 
       {/* Table */}
@@ -295,6 +622,117 @@ const BlackjackView: React.FC = () => {
           background: "#151a2c"
         }}
       >
+        {/* Count and strategy trainers */}
+        <div
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "0.75rem",
+            marginBottom: "0.75rem",
+            fontSize: 13,
+            color: "#e2e8f0"
+          }}
+        >
+          <label style={{ display: "flex", alignItems: "center", gap: "0.35rem" }}>
+            <input
+              type="checkbox"
+              checked={showCount}
+              onChange={e => setShowCount(e.target.checked)}
+            />
+            Show count
+          </label>
+          <select
+            value={countSystem}
+            onChange={e => setCountSystem(e.target.value as BlackjackCountingSystemName)}
+            style={{
+              padding: "0.2rem 0.4rem",
+              borderRadius: 4,
+              border: "1px solid #4a5568",
+              background: "#0b1020",
+              color: "#f5f5f5"
+            }}
+          >
+            {(["hi-lo", "ko", "omega-ii"] as const).map(system => (
+              <option key={system} value={system}>
+                {countingSystemLabel(system)}
+              </option>
+            ))}
+          </select>
+          {count && (
+            <span style={{ color: "#f6e05e" }}>
+              Running {count.runningCount > 0 ? `+${count.runningCount}` : count.runningCount}
+              {" · "}True {count.trueCount.toFixed(1)}
+              {" · "}{count.decksRemaining.toFixed(1)} decks left
+            </span>
+          )}
+
+          <label style={{ display: "flex", alignItems: "center", gap: "0.35rem", marginLeft: "1rem" }}>
+            <input
+              type="checkbox"
+              checked={trainerOn}
+              onChange={e => {
+                setTrainerOn(e.target.checked);
+                setLastGrade(null);
+              }}
+            />
+            Strategy trainer
+          </label>
+          {trainerOn && (
+            <>
+              <label style={{ display: "flex", alignItems: "center", gap: "0.35rem" }}>
+                <input
+                  type="checkbox"
+                  checked={drillOn}
+                  onChange={e => setDrillOn(e.target.checked)}
+                />
+                Drill weak spots
+              </label>
+              <span>
+                Accuracy {Math.round(trainerAccuracy(trainerStats) * 100)}%
+                {" "}({trainerStats.correct}/{trainerStats.decisions})
+              </span>
+              {weakSpots.length > 0 && (
+                <span style={{ color: "#a0aec0" }}>Weakest: {weakSpots.join(", ")}</span>
+              )}
+              <button
+                onClick={() => {
+                  setTrainerStats(emptyTrainerStats());
+                  setLastGrade(null);
+                }}
+                style={{
+                  padding: "0.2rem 0.6rem",
+                  borderRadius: 4,
+                  border: "1px solid #4a5568",
+                  background: "transparent",
+                  color: "#e2e8f0",
+                  cursor: "pointer"
+                }}
+              >
+                Reset
+              </button>
+            </>
+          )}
+        </div>
+
+        {trainerOn && lastGrade && (
+          <div
+            style={{
+              marginBottom: "0.75rem",
+              padding: "0.5rem 0.75rem",
+              borderRadius: 6,
+              fontSize: 14,
+              background: lastGrade.correct ? "#1c4532" : "#63171b",
+              color: "#f7fafc"
+            }}
+          >
+            {lastGrade.correct ? "✓ Correct" : "✗ Mistake"}: {lastGrade.category} vs{" "}
+            {lastGrade.upcard.rank} – you chose <strong>{lastGrade.action}</strong>
+            {!lastGrade.correct && (
+              <>, basic strategy says <strong>{lastGrade.best}</strong></>
+            )}
+          </div>
+        )}
+
         {/* Players */}
         <div
           style={{
@@ -304,26 +742,18 @@ const BlackjackView: React.FC = () => {
           }}
         >
           {state.players.map((p, idx) => {
-            const score = handScore(p.hand);
             const isCurrent = idx === state.currentPlayerIndex;
 
             let role: string;
             if (p.isDealer) role = config.dealerName ?? "Dealer";
-            else if (p.isBot) role = `Bot (${p.id})`;
+            else if (p.isBot) role = `Bot (${p.id}) · ${p.strategy?.name ?? ""}`;
             else role = `Player (${p.id})`;
 
-            const flags: string[] = [];
-            if (p.isBlackjack) flags.push("BLACKJACK");
-            else if (p.hasTwentyOne) flags.push("21");
-            if (p.busted) flags.push("BUST");
-            else if (p.standing && !p.hasTwentyOne && !p.isBlackjack)
-              flags.push("STAND");
-
-            const flagsStr = flags.join(" · ");
+            const stats = playerStats(session, p.id);
 
             return (
               <div
-                key={idx}
+                key={p.id}
                 style={{
                   borderRadius: 8,
                   padding: "0.75rem",
@@ -336,42 +766,113 @@ const BlackjackView: React.FC = () => {
                     : "none"
                 }}
               >
-                <div
-                  style={{
-                    display: "flex",
-                    justifyContent: "space-between",
-                    alignItems: "center",
-                    marginBottom: "0.5rem"
-                  }}
-                >
-                  <div>
-                    <div style={{ fontWeight: 600 }}>{role}</div>
+                <div style={{ marginBottom: "0.5rem" }}>
+                  <div style={{ fontWeight: 600 }}>{role}</div>
+                  <div style={{ fontSize: 12, color: "#a0aec0" }}>
+                    Seat #{idx}
+                    {!p.isDealer && <> · Bankroll {p.bankroll}</>}
+                  </div>
+                  {!p.isDealer && stats.rounds > 0 && (
                     <div style={{ fontSize: 12, color: "#a0aec0" }}>
-                      Seat #{idx}
+                      Session: {stats.hands} hands · W {stats.wins} / P {stats.pushes} / L{" "}
+                      {stats.losses} · BJ {stats.blackjacks} · net{" "}
+                      {stats.net > 0 ? `+${stats.net}` : stats.net}
+                    </div>
+                  )}
+                  {p.sideBetResults.map(r => (
+                    <div
+                      key={r.bet}
+                      style={{ fontSize: 12, color: r.hand ? "#68d391" : "#a0aec0" }}
+                    >
+                      {describeSideBetResult(r)}
                     </div>
-                  </div>
-                  <div style={{ textAlign: "right" }}>
-                    <div style={{ fontWeight: 600 }}>Score: {score}</div>
-                    {flagsStr && (
-                      <div style={{ fontSize: 12, color: "#f6e05e" }}>
-                        {flagsStr}
-                      </div>
-                    )}
-                  </div>
-                </div>
-
-                <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
-                  {p.hand.map((card, i) => (
-                    <CardView 
-                      id={i}
-                      card={card}
-                      draggable={true}
-                    />
                   ))}
-                  {p.hand.length === 0 && (
-                    <div style={{ fontSize: 12, color: "#718096" }}>No cards</div>
+                  {!p.isDealer && state.phase === "betting" && (
+                    <button
+                      onClick={handleLeave(p.id)}
+                      style={{
+                        marginTop: 4,
+                        padding: "0.15rem 0.5rem",
+                        borderRadius: 4,
+                        border: "1px solid #4a5568",
+                        background: "transparent",
+                        color: "#a0aec0",
+                        fontSize: 12,
+                        cursor: "pointer"
+                      }}
+                    >
+                      Leave table
+                    </button>
                   )}
                 </div>
+
+                {p.hands.map((h, handIdx) => {
+                  // Dealer's hole card stays face down until the dealer's turn
+                  const shown = p.isDealer ? visibleDealerCards(state) : h.cards;
+                  const hidden = shown.length < h.cards.length;
+                  const score = describeHandValue(evaluateHand(shown));
+                  const isCurrentHand =
+                    isCurrent && handIdx === state.currentHandIndex && p.hands.length > 1;
+
+                  // A dealer natural isn't shown before the hole card is turned
+                  const flagsStr = hidden ? "" : handStatusLabel(h);
+
+                  return (
+                    <div
+                      key={handIdx}
+                      style={{
+                        marginTop: handIdx > 0 ? "0.5rem" : 0,
+                        paddingLeft: p.hands.length > 1 ? "0.5rem" : 0,
+                        borderLeft: isCurrentHand
+                          ? "3px solid #ecc94b"
+                          : p.hands.length > 1
+                          ? "3px solid #2d3748"
+                          : "none"
+                      }}
+                    >
+                      <div
+                        style={{
+                          display: "flex",
+                          justifyContent: "space-between",
+                          alignItems: "center",
+                          marginBottom: "0.35rem"
+                        }}
+                      >
+                        <div style={{ fontSize: 12, color: "#a0aec0" }}>
+                          {p.hands.length > 1 && `Hand ${handIdx + 1} · `}
+                          {!p.isDealer && <>Bet <strong>{h.bet}</strong></>}
+                          {!p.isDealer && handIdx === 0 && p.insurance > 0 && (
+                            <> · Insured {p.insurance}</>
+                          )}
+                        </div>
+                        <div style={{ textAlign: "right" }}>
+                          <div style={{ fontWeight: 600 }}>
+                            Score: {score}{hidden && " + ?"}
+                          </div>
+                          {flagsStr && (
+                            <div style={{ fontSize: 12, color: "#f6e05e" }}>
+                              {flagsStr}
+                            </div>
+                          )}
+                        </div>
+                      </div>
+
+                      <div style={{ display: "flex", gap: "0.5rem", flexWrap: "wrap" }}>
+                        {h.cards.map((card, i) => (
+                          <CardView
+                            key={i}
+                            card={card}
+                            draggable={true}
+                            faceDown={i >= shown.length}
+                          />
+                        ))}
+                      </div>
+                    </div>
+                  );
+                })}
+                {p.hands.length === 0 && (
+                  <div style={{ fontSize: 12, color: "#718096" }}>No cards</div>
+                )}
               </div>
             );
           })}
@@ -379,7 +880,177 @@ const BlackjackView: React.FC = () => {
 
         {/* Action area */}
         <div style={{ marginTop: "1.5rem" }}>
-          {!state.finished && current && !current.isDealer && !current.isBot ? (
+          {state.phase === "betting" ? (
+            <div
+              style={{
+                display: "flex",
+                alignItems: "flex-end",
+                gap: "0.75rem",
+                flexWrap: "wrap"
+              }}
+            >
+              {state.players.map((p, idx) => {
+                if (p.isDealer || p.isBot) return null;
+
+                // No bet action means the seat can't cover the table minimum
+                const betRange = getLegalActions(state, p.id).find(a => a.type === "bet");
+
+                return (
+                  <div key={idx}>
+                    <label style={{ display: "block", fontSize: 14, marginBottom: 4 }}>
+                      Bet – {p.id} ({p.bankroll} chips)
+                    </label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={betRange?.max ?? 0}
+                      step={state.limits.minBet}
+                      placeholder={betRange ? `${betRange.min}-${betRange.max}` : "Out of chips"}
+                      disabled={!betRange}
+                      value={betInputs[idx] ?? ""}
+                      onChange={handleBetInput(idx)}
+                      style={{
+                        width: 110,
+                        padding: "0.3rem 0.4rem",
+                        borderRadius: 4,
+                        border: "1px solid #4a5568",
+                        background: "#0b1020",
+                        color: "#f5f5f5"
+                      }}
+                    />
+                    {offeredSideBets.map(bet => (
+                      <input
+                        key={bet}
+                        type="number"
+                        min={0}
+                        placeholder={sideBetLabel(bet)}
+                        title={`${sideBetLabel(bet)} side bet`}
+                        value={sideInputs[`${idx}:${bet}`] ?? ""}
+                        onChange={handleSideInput(idx, bet)}
+                        style={{
+                          width: 90,
+                          marginLeft: 4,
+                          padding: "0.3rem 0.4rem",
+                          borderRadius: 4,
+                          border: "1px solid #4a5568",
+                          background: "#0b1020",
+                          color: "#f5f5f5"
+                        }}
+                      />
+                    ))}
+                  </div>
+                );
+              })}
+              <button
+                onClick={handleDeal}
+                style={{
+                  padding: "0.45rem 0.9rem",
+                  borderRadius: 6,
+                  border: "none",
+                  background: "#48bb78",
+                  color: "white",
+                  cursor: "pointer"
+                }}
+              >
+                Deal
+              </button>
+              <div style={{ display: "flex", gap: "0.35rem", alignItems: "flex-end" }}>
+                <div>
+                  <label style={{ display: "block", fontSize: 14, marginBottom: 4 }}>
+                    New player
+                  </label>
+                  <input
+                    type="text"
+                    placeholder="name"
+                    value={joinName}
+                    onChange={e => setJoinName(e.target.value)}
+                    style={{
+                      width: 100,
+                      padding: "0.3rem 0.4rem",
+                      borderRadius: 4,
+                      border: "1px solid #4a5568",
+                      background: "#0b1020",
+                      color: "#f5f5f5"
+                    }}
+                  />
+                </div>
+                {[false, true].map(bot => (
+                  <button
+                    key={String(bot)}
+                    onClick={handleJoin(bot)}
+                    disabled={state.players.length - 1 >= MAX_SEATS}
+                    style={{
+                      padding: "0.35rem 0.7rem",
+                      borderRadius: 6,
+                      border: "1px solid #4a5568",
+                      background: "transparent",
+                      color: "#e2e8f0",
+                      cursor: "pointer"
+                    }}
+                  >
+                    {bot ? "Join as bot" : "Join"}
+                  </button>
+                ))}
+              </div>
+              <span style={{ fontSize: 12, color: betMessage ? "#fc8181" : "#a0aec0" }}>
+                {betMessage ??
+                  `Table limits ${state.limits.minBet}–${state.limits.maxBet} · ` +
+                  `blackjack pays ${state.rules.blackjackPayout} · leave blank to sit out`}
+              </span>
+            </div>
+          ) : state.phase === "insurance" ? (
+            <div style={{ display: "grid", gap: "0.5rem" }}>
+              <span>Dealer shows an Ace – insurance?</span>
+              {state.players.map((p, idx) => {
+                if (p.isDealer || p.isBot || p.hands.length === 0 || p.insuranceDecided) {
+                  return null;
+                }
+                const hand = p.hands[0];
+                const offer = hand?.status === "blackjack"
+                  ? "Take even money"
+                  : `Insure for ${(hand?.bet ?? 0) / 2}`;
+                const allowed = getLegalActions(state, p.id).some(
+                  a => a.type === "insurance" && a.take
+                );
+
+                return (
+                  <div
+                    key={idx}
+                    style={{ display: "flex", alignItems: "center", gap: "0.75rem" }}
+                  >
+                    <strong>Player ({p.id})</strong>
+                    <button
+                      onClick={handleInsurance(idx, true)}
+                      disabled={!allowed}
+                      style={{
+                        padding: "0.45rem 0.9rem",
+                        borderRadius: 6,
+                        border: "none",
+                        background: allowed ? "#3182ce" : "#2a4365",
+                        color: "white",
+                        cursor: allowed ? "pointer" : "not-allowed"
+                      }}
+                    >
+                      {offer}
+                    </button>
+                    <button
+                      onClick={handleInsurance(idx, false)}
+                      style={{
+                        padding: "0.45rem 0.9rem",
+                        borderRadius: 6,
+                        border: "1px solid #4a5568",
+                        background: "transparent",
+                        color: "#e2e8f0",
+                        cursor: "pointer"
+                      }}
+                    >
+                      No thanks
+                    </button>
+                  </div>
+                );
+              })}
+            </div>
+          ) : turn.kind === "act" && current ? (
             <div
               style={{
                 display: "flex",
@@ -422,18 +1093,60 @@ const BlackjackView: React.FC = () => {
               >
                 Stand
               </button>
+              <button
+                onClick={handleDouble}
+                disabled={!doubleAllowed}
+                style={{
+                  padding: "0.45rem 0.9rem",
+                  borderRadius: 6,
+                  border: "none",
+                  background: doubleAllowed ? "#3182ce" : "#2a4365",
+                  color: "white",
+                  cursor: doubleAllowed ? "pointer" : "not-allowed"
+                }}
+              >
+                Double
+              </button>
+              <button
+                onClick={handleSplit}
+                disabled={!splitAllowed}
+                style={{
+                  padding: "0.45rem 0.9rem",
+                  borderRadius: 6,
+                  border: "none",
+                  background: splitAllowed ? "#805ad5" : "#44337a",
+                  color: "white",
+                  cursor: splitAllowed ? "pointer" : "not-allowed"
+                }}
+              >
+                Split
+              </button>
+              <button
+                onClick={handleSurrender}
+                disabled={!surrenderAllowed}
+                style={{
+                  padding: "0.45rem 0.9rem",
+                  borderRadius: 6,
+                  border: "1px solid #4a5568",
+                  background: "transparent",
+                  color: surrenderAllowed ? "#e2e8f0" : "#4a5568",
+                  cursor: surrenderAllowed ? "pointer" : "not-allowed"
+                }}
+              >
+                Surrender
+              </button>
             </div>
           ) : (
             <div style={{ color: "#a0aec0" }}>
-              {state.finished
-                ? "Round finished – adjust table settings or deal again."
+              {finished
+                ? "Round finished – place new bets with New Deal, or adjust table settings."
                 : "Waiting for bots/dealer..."}
             </div>
           )}
         </div>
 
         {/* End game summary */}
-        {state.finished && endResults && (
+        {finished && endResults && (
           <div
             style={{
               marginTop: "1.5rem",
@@ -464,30 +1177,163 @@ const BlackjackView: React.FC = () => {
               {endResults.players.map(p => (
                 <div key={p.seatIndex}>
                   <strong>{p.label}</strong>{" "}
-                  – {p.score}{" "}
-                  {p.flag && (
-                    <span style={{ color: "#f6e05e" }}>
-                      ({p.flag})
-                    </span>
-                  )}{" "}
-                  →{" "}
-                  <span
-                    style={{
-                      color:
-                        p.result.startsWith("WIN")
-                          ? "#68d391"
-                          : p.result.startsWith("LOSE")
-                          ? "#fc8181"
-                          : "#e2e8f0"
-                    }}
-                  >
-                    {p.result}
-                  </span>
+                  {p.hands.length === 0 && (
+                    <span style={{ color: "#a0aec0" }}>– sat out</span>
+                  )}
+                  {p.hands.map((h, i) => (
+                    <div key={i} style={{ paddingLeft: "0.75rem" }}>
+                      {p.hands.length > 1 && `Hand ${i + 1}: `}
+                      {h.score}{" "}
+                      {h.flag && (
+                        <span style={{ color: "#f6e05e" }}>
+                          ({h.flag})
+                        </span>
+                      )}{" "}
+                      →{" "}
+                      <span
+                        style={{
+                          color:
+                            h.outcome === "win" || h.outcome === "blackjack"
+                              ? "#68d391"
+                              : h.outcome === "lose"
+                              ? "#fc8181"
+                              : "#e2e8f0"
+                        }}
+                      >
+                        {h.result}
+                      </span>
+                    </div>
+                  ))}
+                  {p.hands.length > 0 && (
+                    <div style={{ paddingLeft: "0.75rem", color: "#a0aec0" }}>
+                      {p.net > 0 ? `+${p.net}` : p.net} · bankroll {p.bankroll}
+                    </div>
+                  )}
                 </div>
               ))}
             </div>
           </div>
         )}
+
+        {/* Round history: replay a recorded round event by event */}
+        {session.history.length > 0 && (
+          <div
+            style={{
+              marginTop: "1.5rem",
+              padding: "0.75rem 1rem",
+              borderRadius: 8,
+              border: "1px solid #4a5568",
+              background: "#1a202c",
+              fontSize: 13
+            }}
+          >
+            <div style={{ display: "flex", alignItems: "center", gap: "0.5rem" }}>
+              <strong>History</strong>
+              <select
+                value={historyRound ?? ""}
+                onChange={e => openHistoryRound(e.target.value ? Number(e.target.value) : null)}
+                style={{
+                  padding: "0.2rem 0.4rem",
+                  borderRadius: 4,
+                  border: "1px solid #4a5568",
+                  background: "#0b1020",
+                  color: "#f5f5f5"
+                }}
+              >
+                <option value="">Choose a round…</option>
+                {[...session.history].reverse().map(h => (
+                  <option key={h.round} value={h.round}>
+                    Round {h.round}
+                  </option>
+                ))}
+              </select>
+              {historyState && (
+                <>
+                  {([
+                    ["⏮", 0],
+                    ["◀", historyStep - 1],
+                    ["▶", historyStep + 1],
+                    ["⏭", historyLog.length]
+                  ] as const).map(([label, step]) => (
+                    <button
+                      key={label}
+                      onClick={() => setHistoryStep(step)}
+                      disabled={step < 0 || step > historyLog.length || step === historyStep}
+                      style={{
+                        padding: "0.2rem 0.5rem",
+                        borderRadius: 4,
+                        border: "1px solid #4a5568",
+                        background: "transparent",
+                        color: "#e2e8f0",
+                        cursor: "pointer"
+                      }}
+                    >
+                      {label}
+                    </button>
+                  ))}
+                  <span style={{ color: "#a0aec0" }}>
+                    Step {historyStep} / {historyLog.length}
+                  </span>
+                </>
+              )}
+            </div>
+
+            {historyState && (
+              <div
+                style={{
+                  display: "grid",
+                  gridTemplateColumns: "1fr 1fr",
+                  gap: "1rem",
+                  marginTop: "0.75rem"
+                }}
+              >
+                {/* The table as it stood after the selected event */}
+                <div style={{ display: "grid", gap: "0.35rem", alignContent: "start" }}>
+                  {historyState.players.map(p => (
+                    <div key={p.id}>
+                      <strong>{p.id}</strong>
+                      {!p.isDealer && (
+                        <span style={{ color: "#a0aec0" }}> · bankroll {p.bankroll}</span>
+                      )}
+                      {p.hands.map((h, i) => {
+                        const shown = p.isDealer ? visibleDealerCards(historyState) : h.cards;
+                        const hidden = shown.length < h.cards.length;
+                        const label = hidden ? "" : handStatusLabel(h);
+
+                        return (
+                          <div key={i} style={{ paddingLeft: "0.75rem" }}>
+                            {shown.map(c => `${c.rank}${c.suit}`).join(" ")}
+                            {hidden && " ??"}
+                            {" "}({describeHandValue(evaluateHand(shown))})
+                            {!p.isDealer && ` · bet ${h.bet}`}
+                            {label && <span style={{ color: "#f6e05e" }}> {label}</span>}
+                          </div>
+                        );
+                      })}
+                    </div>
+                  ))}
+                </div>
+
+                {/* The round's events; click one to jump there */}
+                <ol style={{ margin: 0, paddingLeft: "1.5rem", maxHeight: 240, overflowY: "auto" }}>
+                  {historyLog.map((event, i) => (
+                    <li
+                      key={i}
+                      onClick={() => setHistoryStep(i + 1)}
+                      style={{
+                        cursor: "pointer",
+                        color: i < historyStep ? "#e2e8f0" : "#718096",
+                        fontWeight: i === historyStep - 1 ? "bold" : "normal"
+                      }}
+                    >
+                      {describeBlackjackEvent(historyStates[i] ?? historyState, event)}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            )}
+          </div>
+        )}
       </section>
     </>
   );
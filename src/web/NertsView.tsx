@@ -1,14 +1,28 @@
 // src/web/NertsView.tsx
-import React, { useEffect, useMemo, useState } from "react";
+import React, { useCallback, useEffect, useMemo, useState } from "react";
 import {
   initNerts,
   applyNertsAction,
+  tryNertsAction,
+  describeNertsRejection,
   botStep,
+  getLegalActions,
+  rankNertsMoves,
+  NertsAction,
   NertsState,
   NertsPlayerState,
   PlayerId
 } from "../core/nerts";
 import type { Card } from "../core/cards";
+import {
+  createHistory,
+  pushHistory,
+  replacePresent,
+  undoHistory,
+  redoHistory,
+  canUndo,
+  canRedo
+} from "../core/history";
 import { CardView } from "./components/CardView";
 
 const HUMAN_ID: PlayerId = "you";
@@ -22,26 +36,95 @@ interface DragPayload {
   cardId?: string;
 }
 
+const HISTORY_LIMIT = 100;
+
+const newNertsGame = () =>
+  createHistory(initNerts({ playerIds: [HUMAN_ID, "bot1", "bot2"] }), HISTORY_LIMIT);
+
+// Where a hinted move starts and lands, for highlighting
+interface HintSpots {
+  cardId: string | null;      // card to move (nerts, waste or tableau)
+  stock: boolean;             // the hint is to draw
+  foundation: number | null;
+  tableau: number | null;
+}
+
+const hintSpots = (action: NertsAction | null, player: NertsPlayerState | null): HintSpots => {
+  const spots: HintSpots = { cardId: null, stock: false, foundation: null, tableau: null };
+  if (!action || !player) return spots;
+
+  const topId = (pile: NertsPlayerState["waste"]) => pile[pile.length - 1]?.id ?? null;
+
+  switch (action.type) {
+    case "stock_draw":
+      spots.stock = true;
+      break;
+    case "nerts_to_foundation":
+      spots.cardId = topId(player.nertsPile);
+      spots.foundation = action.foundationIndex;
+      break;
+    case "nerts_to_tableau":
+      spots.cardId = topId(player.nertsPile);
+      spots.tableau = action.tableauIndex;
+      break;
+    case "waste_to_foundation":
+      spots.cardId = topId(player.waste);
+      spots.foundation = action.foundationIndex;
+      break;
+    case "waste_to_tableau":
+      spots.cardId = topId(player.waste);
+      spots.tableau = action.tableauIndex;
+      break;
+    case "tableau_to_foundation":
+      spots.cardId = topId(player.tableau[action.fromIndex] ?? []);
+      spots.foundation = action.foundationIndex;
+      break;
+    case "tableau_to_tableau":
+      spots.cardId = action.cardId;
+      spots.tableau = action.toIndex;
+      break;
+  }
+
+  return spots;
+};
+
+const sameAction = (a: NertsAction, b: NertsAction) => JSON.stringify(a) === JSON.stringify(b);
+
+const HINT_BORDER = "2px solid #f6e05e";
+
 // simple dummy card for backs if needed
 const dummyCard: Card = { rank: "A", suit: "♠" };
 
 const NertsView: React.FC = () => {
-  const [state, setState] = useState<NertsState>(() =>
-    initNerts({ playerIds: [HUMAN_ID, "bot1", "bot2"] })
-  );
+  // Only your moves go on the undo stack; undoing one also takes back
+  // whatever the bots did since
+  const [history, setHistory] = useState(newNertsGame);
+  const state: NertsState = history.present;
 
   const [botsEnabled, setBotsEnabled] = useState(true);
   const [botIntervalMs, setBotIntervalMs] = useState(220); // slightly slower default
   const [botSkill, setBotSkill] = useState(0.6);           // 0.0–1.0
+  const [dragging, setDragging] = useState<DragPayload | null>(null);
+  const [toast, setToast] = useState<string | null>(null);
+  const [hint, setHint] = useState<
+    { forState: NertsState; index: number; action: NertsAction } | null
+  >(null);
+
+  // Toasts fade out on their own
+  useEffect(() => {
+    if (!toast) return;
+    const id = setTimeout(() => setToast(null), 2200);
+    return () => clearTimeout(id);
+  }, [toast]);
 
   // Bot loop: every tick, let each bot maybe take a step based on skill
   useEffect(() => {
     if (!botsEnabled) return;
 
     const id = setInterval(() => {
-      setState(prev => {
-        let s = prev;
-        if (s.finished) return s;
+      setHistory(h => {
+        let s = h.present;
+        if (s.finished) return h;
 
         for (const p of s.players) {
           if (p.id !== HUMAN_ID) {
@@ -53,7 +136,7 @@ const NertsView: React.FC = () => {
           }
         }
 
-        return s;
+        return replacePresent(h, s);
       });
     }, botIntervalMs);
 
@@ -61,9 +144,38 @@ const NertsView: React.FC = () => {
   }, [botsEnabled, botIntervalMs, botSkill]);
 
   const handleNewGame = () => {
-    setState(initNerts({ playerIds: [HUMAN_ID, "bot1", "bot2"] }));
+    setHint(null);
+    setHistory(newNertsGame());
   };
 
+  // No take-backs once someone has called Nerts
+  // Stable across renders, so the shortcut listener below is added once
+  const handleUndo = useCallback(() => {
+    setHint(null);
+    setHistory(h => (h.present.finished ? h : undoHistory(h)));
+  }, []);
+
+  const handleRedo = useCallback(() => {
+    setHint(null);
+    setHistory(h => (h.present.finished ? h : redoHistory(h)));
+  }, []);
+
+  // Ctrl+Z undoes, Ctrl+Shift+Z redoes (Cmd on macOS)
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+      e.preventDefault();
+      if (e.shiftKey) handleRedo();
+      else handleUndo();
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  const undoAvailable = canUndo(history) && !state.finished;
+  const redoAvailable = canRedo(history) && !state.finished;
+
   const humanPlayer = useMemo(
     () => state.players.find(p => p.id === HUMAN_ID) ?? null,
     [state.players]
@@ -73,8 +185,84 @@ const NertsView: React.FC = () => {
     [state.players]
   );
 
-  const handleApplyAction = (action: Parameters<typeof applyNertsAction>[1]) => {
-    setState(prev => applyNertsAction(prev, action));
+  // Every move the human could make right now
+  const humanMoves = useMemo(() => getLegalActions(state, HUMAN_ID), [state]);
+  const canDraw = humanMoves.some(a => a.type === "stock_draw");
+
+  // Best move first, then the alternatives on each further press; any
+  // change to the game (a bot's move included) starts the list over
+  const handleHint = () => {
+    const ranked = rankNertsMoves(state, HUMAN_ID);
+    if (ranked.length === 0) {
+      setHint(null);
+      setToast("No moves left");
+      return;
+    }
+    const index = hint?.forState === state ? (hint.index + 1) % ranked.length : 0;
+    setHint({ forState: state, index, action: ranked[index]! });
+  };
+
+  // A hint stays up only while its move can still be made
+  const activeHint =
+    hint && humanMoves.some(a => sameAction(a, hint.action)) ? hint.action : null;
+  const spots = hintSpots(activeHint, humanPlayer);
+
+  // Foundations / tableau piles the card being dragged may land on
+  const dropTargets = useMemo(() => {
+    const foundations = new Set<number>();
+    const tableau = new Set<number>();
+    if (!dragging) return { foundations, tableau };
+
+    for (const a of humanMoves) {
+      switch (a.type) {
+        case "nerts_to_foundation":
+        case "waste_to_foundation":
+          if (a.type.startsWith(dragging.from)) foundations.add(a.foundationIndex);
+          break;
+        case "nerts_to_tableau":
+        case "waste_to_tableau":
+          if (a.type.startsWith(dragging.from)) tableau.add(a.tableauIndex);
+          break;
+        case "tableau_to_foundation": {
+          // Only the top card of a pile goes up
+          const pile = humanPlayer?.tableau[a.fromIndex] ?? [];
+          if (
+            dragging.from === "tableau" &&
+            dragging.tableauIndex === a.fromIndex &&
+            pile[pile.length - 1]?.id === dragging.cardId
+          ) {
+            foundations.add(a.foundationIndex);
+          }
+          break;
+        }
+        case "tableau_to_tableau":
+          if (
+            dragging.from === "tableau" &&
+            dragging.tableauIndex === a.fromIndex &&
+            dragging.cardId === a.cardId
+          ) {
+            tableau.add(a.toIndex);
+          }
+          break;
+      }
+    }
+
+    return { foundations, tableau };
+  }, [dragging, humanMoves, humanPlayer]);
+
+  const handleApplyAction = (action: NertsAction) => {
+    setHint(null);
+    setHistory(h => pushHistory(h, applyNertsAction(h.present, action)));
+  };
+
+  // A dropped card: make the move, or tell the player why it didn't go
+  const handleDropAction = (action: NertsAction) => {
+    const result = tryNertsAction(state, action);
+    if (!result.ok) {
+      setToast(describeNertsRejection(result.reason));
+      return;
+    }
+    handleApplyAction(action);
   };
 
   const handleStockClick = (playerId: PlayerId) => {
@@ -93,6 +281,7 @@ const NertsView: React.FC = () => {
       const payload: DragPayload = { from: "nerts", playerId };
       e.dataTransfer.setData("text/plain", JSON.stringify(payload));
       e.dataTransfer.effectAllowed = "move";
+      setDragging(payload);
     };
 
   const handleDragStartFromWaste = (playerId: PlayerId) =>
@@ -104,6 +293,7 @@ const NertsView: React.FC = () => {
       const payload: DragPayload = { from: "waste", playerId };
       e.dataTransfer.setData("text/plain", JSON.stringify(payload));
       e.dataTransfer.effectAllowed = "move";
+      setDragging(payload);
     };
 
   const handleDragStartFromTableau = (
@@ -124,6 +314,7 @@ const NertsView: React.FC = () => {
       };
       e.dataTransfer.setData("text/plain", JSON.stringify(payload));
       e.dataTransfer.effectAllowed = "move";
+      setDragging(payload);
     };
 
   const parsePayload = (e: React.DragEvent<HTMLDivElement>): DragPayload | null => {
@@ -139,54 +330,63 @@ const NertsView: React.FC = () => {
   const handleDropOnFoundation = (foundationIndex: number) =>
     (e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault();
+      setDragging(null);
       const payload = parsePayload(e);
       if (!payload) return;
       if (payload.playerId !== HUMAN_ID || state.finished) return;
 
       switch (payload.from) {
         case "nerts":
-          handleApplyAction({
+          handleDropAction({
             type: "nerts_to_foundation",
             playerId: HUMAN_ID,
             foundationIndex
           });
           break;
         case "waste":
-          handleApplyAction({
+          handleDropAction({
             type: "waste_to_foundation",
             playerId: HUMAN_ID,
             foundationIndex
           });
           break;
-        case "tableau":
+        case "tableau": {
           if (payload.tableauIndex == null) return;
-          handleApplyAction({
+          // The move always takes the top card, so don't let a buried one stand in for it
+          const pile = humanPlayer?.tableau[payload.tableauIndex] ?? [];
+          if (pile[pile.length - 1]?.id !== payload.cardId) {
+            setToast("Only the top card of a pile can go to a foundation");
+            return;
+          }
+          handleDropAction({
             type: "tableau_to_foundation",
             playerId: HUMAN_ID,
             fromIndex: payload.tableauIndex,
             foundationIndex
           });
           break;
+        }
       }
     };
 
   const handleDropOnTableau = (destIndex: number) =>
     (e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault();
+      setDragging(null);
       const payload = parsePayload(e);
       if (!payload) return;
       if (payload.playerId !== HUMAN_ID || state.finished) return;
 
       switch (payload.from) {
         case "nerts":
-          handleApplyAction({
+          handleDropAction({
             type: "nerts_to_tableau",
             playerId: HUMAN_ID,
             tableauIndex: destIndex
           });
           break;
         case "waste":
-          handleApplyAction({
+          handleDropAction({
             type: "waste_to_tableau",
             playerId: HUMAN_ID,
             tableauIndex: destIndex
@@ -194,7 +394,8 @@ const NertsView: React.FC = () => {
           break;
         case "tableau":
           if (payload.tableauIndex == null || !payload.cardId) return;
-          handleApplyAction({
+          if (payload.tableauIndex === destIndex) return; // dropped back where it came from
+          handleDropAction({
             type: "tableau_to_tableau",
             playerId: HUMAN_ID,
             fromIndex: payload.tableauIndex,
@@ -209,6 +410,9 @@ const NertsView: React.FC = () => {
     e.preventDefault();
   };
 
+  const targetBorder = (legal: boolean) =>
+    legal ? "2px solid #68d391" : "1px dashed #4a5568";
+
   const isHumanWinner = state.finished && state.winnerId === HUMAN_ID;
 
   // ---- Shared rendering helper for players ----
@@ -226,6 +430,7 @@ const NertsView: React.FC = () => {
 
     return (
       <div
+        onDragEnd={isHuman ? () => setDragging(null) : undefined}
         style={{
           borderRadius: 8,
           padding: "0.6rem",
@@ -281,6 +486,7 @@ const NertsView: React.FC = () => {
                     card={topNerts}
                     draggable
                     onDragStart={handleDragStartFromNerts(player.id)}
+                    highlighted={spots.cardId === topNerts.id}
                   />
                 ) : (
                   <CardView card={topNerts} draggable={false} />
@@ -313,7 +519,12 @@ const NertsView: React.FC = () => {
               </div>
               <div
                 onClick={() => (isHuman ? handleStockClick(player.id) : undefined)}
-                style={{ cursor: isHuman ? "pointer" : "default" }}
+                style={{
+                  cursor: isHuman && canDraw ? "pointer" : "default",
+                  borderRadius: 10,
+                  outline: isHuman && spots.stock ? "3px solid #f6e05e" : "none",
+                  outlineOffset: 2
+                }}
               >
                 {player.stock.length > 0 ? (
                   <CardView card={dummyCard} faceDown />
@@ -347,6 +558,7 @@ const NertsView: React.FC = () => {
                     card={topWaste}
                     draggable
                     onDragStart={handleDragStartFromWaste(player.id)}
+                    highlighted={spots.cardId === topWaste.id}
                   />
                 ) : (
                   <CardView card={topWaste} draggable={false} />
@@ -388,7 +600,10 @@ const NertsView: React.FC = () => {
               style={{
                 borderRadius: 8,
                 padding: "0.45rem",
-                border: "1px dashed #4a5568",
+                border:
+                  isHuman && spots.tableau === tIdx
+                    ? HINT_BORDER
+                    : targetBorder(isHuman && dropTargets.tableau.has(tIdx)),
                 background: "#1a202c",
                 minHeight: 140,
                 position: "relative"
@@ -445,6 +660,7 @@ const NertsView: React.FC = () => {
                               ? handleDragStartFromTableau(player.id, tIdx, card.id)
                               : undefined
                           }
+                          highlighted={isHuman && spots.cardId === card.id}
                         />
                       ) : (
                         <CardView card={card} faceDown />
@@ -498,6 +714,47 @@ const NertsView: React.FC = () => {
           New Game
         </button>
 
+        <button
+          onClick={handleHint}
+          disabled={state.finished}
+          style={{
+            padding: "0.35rem 0.7rem",
+            borderRadius: 6,
+            border: "1px solid #f6e05e",
+            background: "transparent",
+            color: "#f6e05e",
+            cursor: state.finished ? "not-allowed" : "pointer",
+            fontSize: 14
+          }}
+        >
+          Hint
+        </button>
+
+        <div style={{ display: "flex", gap: "0.25rem" }}>
+          {([
+            ["Undo", handleUndo, undoAvailable, "Ctrl+Z"],
+            ["Redo", handleRedo, redoAvailable, "Ctrl+Shift+Z"]
+          ] as const).map(([label, onClick, enabled, keys]) => (
+            <button
+              key={label}
+              onClick={onClick}
+              disabled={!enabled}
+              title={keys}
+              style={{
+                padding: "0.3rem 0.6rem",
+                borderRadius: 6,
+                border: "none",
+                background: "#1a202c",
+                color: enabled ? "#e2e8f0" : "#4a5568",
+                cursor: enabled ? "pointer" : "not-allowed",
+                fontSize: 13
+              }}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
         <label
           style={{
             display: "flex",
@@ -567,6 +824,10 @@ const NertsView: React.FC = () => {
           </span>
         </label>
 
+        <span style={{ fontSize: 12, color: "#718096" }}>
+          Seed {state.seed}
+        </span>
+
         {state.finished && (
           <span style={{ marginLeft: "auto", fontSize: 14 }}>
             {isHumanWinner ? (
@@ -674,7 +935,10 @@ const NertsView: React.FC = () => {
                   style={{
                     borderRadius: 8,
                     padding: "0.45rem",
-                    border: "1px dashed #4a5568",
+                    border:
+                      spots.foundation === idx
+                        ? HINT_BORDER
+                        : targetBorder(dropTargets.foundations.has(idx)),
                     background: "#1a202c",
                     minHeight: 130
                   }}
@@ -714,6 +978,29 @@ const NertsView: React.FC = () => {
           </div>
         </div>
       </div>
+
+      {/* Why the last drop was refused */}
+      {toast && (
+        <div
+          role="status"
+          style={{
+            position: "fixed",
+            bottom: "1.5rem",
+            left: "50%",
+            transform: "translateX(-50%)",
+            padding: "0.5rem 1rem",
+            borderRadius: 8,
+            background: "#2d3748",
+            border: "1px solid #fc8181",
+            color: "#fed7d7",
+            fontSize: 14,
+            boxShadow: "0 4px 12px rgba(0, 0, 0, 0.4)",
+            zIndex: 10
+          }}
+        >
+          {toast}
+        </div>
+      )}
     </section>
   );
 };
@@ -1,6 +1,7 @@
 // src/web/SandboxView.tsx
 import React, { useState } from "react";
 import { createDeck, shuffle, Card } from "../core/cards";
+import { createRng } from "../core/random";
 import { CardView } from "./components/CardView";
 
 type PileKey = "deck" | "tableA" | "tableB" | "discard";
@@ -10,17 +11,20 @@ interface SandboxCard extends Card {
 }
 
 interface SandboxState {
+  seed: number;
   piles: Record<PileKey, SandboxCard[]>;
 }
 
-const makeInitialSandboxState = (): SandboxState => {
-  const baseDeck = shuffle(createDeck());
+const makeInitialSandboxState = (seed?: number): SandboxState => {
+  const rng = createRng(seed);
+  const baseDeck = shuffle(createDeck(), rng);
   const deck: SandboxCard[] = baseDeck.map((c, idx) => ({
     ...c,
     id: `${c.rank}${c.suit}-${idx}`
   }));
 
   return {
+    seed: rng.seed,
     piles: {
       deck,
       tableA: [],
@@ -45,6 +49,7 @@ const SandboxView: React.FC = () => {
 
     setState(prev => {
       const next: SandboxState = {
+        seed: prev.seed,
         piles: {
           deck: [...prev.piles.deck],
           tableA: [...prev.piles.tableA],
@@ -97,6 +102,7 @@ const SandboxView: React.FC = () => {
 
       const card = deck.pop()!;
       const next = {
+        seed: prev.seed,
         piles: {
           deck,
           tableA: [...prev.piles.tableA],
@@ -172,6 +178,9 @@ const SandboxView: React.FC = () => {
         >
           Deal to Table B
         </button>
+        <span style={{ marginLeft: "auto", fontSize: 12, color: "#718096" }}>
+          Seed {state.seed}
+        </span>
       </div>
 
       <div
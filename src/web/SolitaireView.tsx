@@ -1,95 +1,39 @@
 // src/web/SolitaireView.tsx
-import React, { useEffect, useState } from "react";
-import { createDeck, shuffle, Card, Suit } from "../core/cards";
+import React, { useCallback, useEffect, useState } from "react";
+import type { Card, Suit } from "../core/cards";
+import {
+  initSolitaire,
+  applySolitaireAction,
+  canAutoComplete,
+  autoComplete,
+  canDraw,
+  passLimit,
+  countUndo,
+  keepUndoCount,
+  undoPenalty,
+  solitaireScore,
+  rankSolitaireMoves,
+  FOUNDATION_SUITS,
+  SolitaireAction,
+  SolitaireConfig,
+  SolitaireDrawCount,
+  SolitairePassRule,
+  SolitaireScoring,
+  SolitaireState,
+  SolitaireUndoRule
+} from "../core/solitaire";
+import { dealWinnableSolitaire, solveSolitaire } from "../core/solitaire-solver";
+import {
+  createHistory,
+  pushHistory,
+  replacePresent,
+  undoHistory,
+  redoHistory,
+  canUndo,
+  canRedo
+} from "../core/history";
 import { CardView } from "./components/CardView";
 
-interface SolitaireCard extends Card {
-  id: string;
-  faceUp: boolean;
-}
-
-interface SolitaireState {
-  stock: SolitaireCard[];
-  waste: SolitaireCard[];
-  tableau: SolitaireCard[][];
-  foundations: Record<Suit, SolitaireCard[]>;
-  moves: number;
-  startedAt: number | null;
-  won: boolean;
-}
-
-// ----- Helpers -----
-
-const rankOrder: Card["rank"][] = [
-  "A", "2", "3", "4", "5", "6", "7",
-  "8", "9", "10", "J", "Q", "K"
-];
-
-const getRankValue = (rank: Card["rank"]): number => {
-  const idx = rankOrder.indexOf(rank);
-  return idx === -1 ? 0 : idx + 1;
-};
-
-const isRedSuit = (suit: Suit) => suit === "♥" || suit === "♦";
-
-const cloneFoundations = (
-  foundations: Record<Suit, SolitaireCard[]>
-): Record<Suit, SolitaireCard[]> => ({
-  "♠": [...foundations["♠"]],
-  "♥": [...foundations["♥"]],
-  "♦": [...foundations["♦"]],
-  "♣": [...foundations["♣"]]
-});
-
-const foundationsOrder: Suit[] = ["♠", "♥", "♦", "♣"];
-
-const makeInitialSolitaireState = (): SolitaireState => {
-  const baseDeck = shuffle(createDeck());
-  const allCards: SolitaireCard[] = baseDeck.map((c, idx) => ({
-    ...c,
-    id: `c${idx}`,
-    faceUp: false
-  }));
-
-  // 7 tableau piles with growing sizes
-  const tableau: SolitaireCard[][] = Array.from({ length: 7 }, () => []);
-
-  let index = 0;
-  for (let col = 0; col < 7; col++) {
-    for (let row = 0; row <= col; row++) {
-      tableau[col].push(allCards[index++]);
-    }
-  }
-
-  // Flip top card of each tableau pile face up
-  for (let col = 0; col < 7; col++) {
-    const pile = tableau[col];
-    if (pile.length > 0) {
-      const topIdx = pile.length - 1;
-      pile[topIdx] = { ...pile[topIdx], faceUp: true };
-    }
-  }
-
-  const stock = allCards.slice(index); // remaining cards, all face down
-
-  const foundations: Record<Suit, SolitaireCard[]> = {
-    "♠": [],
-    "♥": [],
-    "♦": [],
-    "♣": []
-  };
-
-  return {
-    stock,
-    waste: [],
-    tableau,
-    foundations,
-    moves: 0,
-    startedAt: null,
-    won: false
-  };
-};
-
 const formatTime = (ms: number): string => {
   const totalSeconds = Math.floor(ms / 1000);
   const minutes = Math.floor(totalSeconds / 60);
@@ -99,209 +43,331 @@ const formatTime = (ms: number): string => {
   return `${mm}:${ss}`;
 };
 
-const isWin = (state: SolitaireState): boolean => {
-  const total = foundationsOrder.reduce(
-    (sum, suit) => sum + state.foundations[suit].length,
-    0
-  );
-  return total === 52;
+// Positions the solver may search per click before giving up. The search
+// runs on the main thread, and one that gives up costs roughly 35-150 µs a
+// position depending on the machine, so this keeps the pause to about
+// 0.35-1.5 s at the cost of missing the odd hard win. Dealing a winnable
+// game spreads the same budget over several deals, so it never stalls
+// longer than one search.
+const SOLVER_MAX_NODES = 10_000;
+const DEAL_MAX_NODES = 2_500;
+const SOLUTION_STEP_MS = 250;
+const HISTORY_LIMIT = 200;
+
+const UNDO_RULE_LABELS: Record<SolitaireUndoRule, string> = {
+  free: "Undo: free",
+  count: "Undo: counted",
+  penalize: "Undo: penalized"
 };
 
-const canMoveToFoundation = (
-  card: SolitaireCard,
-  pile: SolitaireCard[]
-): boolean => {
-  const cardRank = getRankValue(card.rank);
-  const top = pile[pile.length - 1];
-  if (!top) {
-    // Only Ace on empty foundation
-    return cardRank === 1;
-  }
-  const topRank = getRankValue(top.rank);
-  return cardRank === topRank + 1;
+const PASS_RULE_LABELS: Record<SolitairePassRule, string> = {
+  unlimited: "Passes: unlimited",
+  limited: "Passes: 3 (draw 3) / 1 (draw 1)"
 };
 
-const canAutoComplete = (state: SolitaireState): boolean => {
-  // Heuristic: no stock, no face-down cards anywhere
-  if (state.stock.length > 0) return false;
-  if (state.waste.some(c => !c.faceUp)) return false;
-  if (state.tableau.some(pile => pile.some(c => !c.faceUp))) return false;
-  return true;
+const SCORING_LABELS: Record<SolitaireScoring, string> = {
+  standard: "Standard scoring",
+  vegas: "Vegas",
+  "vegas-cumulative": "Vegas (cumulative)"
+};
+
+// Vegas scores are dollars
+const formatScore = (scoring: SolitaireScoring, score: number): string =>
+  scoring === "standard" ? String(score) : `${score < 0 ? "−" : ""}$${Math.abs(score)}`;
+
+// Where a hinted move starts and lands, for highlighting
+interface HintSpots {
+  cardId: string | null;     // card to move (waste, tableau or foundation)
+  stock: boolean;            // the hint is to draw
+  foundation: Suit | null;
+  tableau: number | null;
+}
+
+const hintSpots = (state: SolitaireState, action: SolitaireAction | null): HintSpots => {
+  const spots: HintSpots = { cardId: null, stock: false, foundation: null, tableau: null };
+  const wasteTop = state.waste[state.waste.length - 1];
+
+  switch (action?.type) {
+    case undefined:
+      break;
+    case "draw":
+      spots.stock = true;
+      break;
+    case "waste_to_foundation":
+      spots.cardId = wasteTop?.id ?? null;
+      spots.foundation = wasteTop?.suit ?? null;
+      break;
+    case "waste_to_tableau":
+      spots.cardId = wasteTop?.id ?? null;
+      spots.tableau = action.tableauIndex;
+      break;
+    case "tableau_to_foundation": {
+      const pile = state.tableau[action.fromIndex] ?? [];
+      const top = pile[pile.length - 1];
+      spots.cardId = top?.id ?? null;
+      spots.foundation = top?.suit ?? null;
+      break;
+    }
+    case "tableau_to_tableau":
+      spots.cardId = action.cardId;
+      spots.tableau = action.toIndex;
+      break;
+    case "foundation_to_tableau": {
+      const pile = state.foundations[action.suit];
+      spots.cardId = pile[pile.length - 1]?.id ?? null;
+      spots.tableau = action.tableauIndex;
+      break;
+    }
+  }
+
+  return spots;
 };
 
+const HINT_BORDER = "2px solid #f6e05e";
+
 // ----- Drag types -----
 
 type DragSource =
   | { from: "waste"; cardId: string }
-  | { from: "tableau"; pileIndex: number; cardId: string };
+  | { from: "tableau"; pileIndex: number; cardId: string }
+  | { from: "foundation"; suit: Suit; cardId: string };
 
 type DropTarget =
   | { type: "foundation"; suit: Suit }
   | { type: "tableau"; pileIndex: number };
 
+// The core action for a drop, or null if the drop can't mean anything
+const dropAction = (
+  state: SolitaireState,
+  source: DragSource,
+  target: DropTarget
+): SolitaireAction | null => {
+  if (source.from === "foundation") {
+    if (target.type === "foundation") return null;
+    return { type: "foundation_to_tableau", suit: source.suit, tableauIndex: target.pileIndex };
+  }
+
+  if (target.type === "foundation") {
+    if (source.from === "waste") {
+      const top = state.waste[state.waste.length - 1];
+      return top?.suit === target.suit ? { type: "waste_to_foundation" } : null;
+    }
+
+    // Single cards only, onto their own suit
+    const pile = state.tableau[source.pileIndex] ?? [];
+    const top = pile[pile.length - 1];
+    if (top?.id !== source.cardId || top.suit !== target.suit) return null;
+    return { type: "tableau_to_foundation", fromIndex: source.pileIndex };
+  }
+
+  if (source.from === "waste") {
+    return { type: "waste_to_tableau", tableauIndex: target.pileIndex };
+  }
+  return {
+    type: "tableau_to_tableau",
+    fromIndex: source.pileIndex,
+    toIndex: target.pileIndex,
+    cardId: source.cardId
+  };
+};
+
 // ----- Component -----
 
 const SolitaireView: React.FC = () => {
-  const [state, setState] = useState<SolitaireState>(() =>
-    makeInitialSolitaireState()
+  const [history, setHistory] = useState(() =>
+    createHistory(initSolitaire(), HISTORY_LIMIT)
   );
+  const state = history.present;
 
+  const [startedAt, setStartedAt] = useState<number | null>(null);
   const [elapsedMs, setElapsedMs] = useState(0);
-  const [drawMode, setDrawMode] = useState<1 | 3>(1); // Draw 1 or 3
+
+  // Pass limits are fixed per deal, so a change waits for the next one
+  const [passRule, setPassRule] = useState<SolitairePassRule>(state.passRule);
+  const [winnableOnly, setWinnableOnly] = useState(false);
+  const [solution, setSolution] = useState<SolitaireAction[] | null>(null);
+  const [solutionStep, setSolutionStep] = useState(0);
+  const [solverMessage, setSolverMessage] = useState<string | null>(null);
+  const [hint, setHint] = useState<
+    { forState: SolitaireState; index: number; action: SolitaireAction } | null
+  >(null);
 
   const stockBackCard: Card = { rank: "A", suit: "♠" }; // rank/suit not used when faceDown
 
+  // The clock starts with the first move
+  useEffect(() => {
+    if (state.moves > 0 && startedAt == null) setStartedAt(Date.now());
+  }, [state.moves, startedAt]);
+
   // Timer effect
   useEffect(() => {
-    if (state.startedAt == null || state.won) {
+    if (startedAt == null || state.won) {
       return;
     }
     // Sync immediately
-    setElapsedMs(Date.now() - state.startedAt);
+    setElapsedMs(Date.now() - startedAt);
 
     const id = setInterval(() => {
-      setElapsedMs(Date.now() - (state.startedAt as number));
+      setElapsedMs(Date.now() - startedAt);
     }, 1000);
 
     return () => clearInterval(id);
-  }, [state.startedAt, state.won]);
+  }, [startedAt, state.won]);
 
-  const handleReset = () => {
-    setState(makeInitialSolitaireState());
-    setElapsedMs(0);
+  // Solution replay: one move per tick until the line runs out
+  useEffect(() => {
+    if (!solution) return;
+
+    const move = solution[solutionStep];
+    if (!move) {
+      setSolution(null);
+      return;
+    }
+
+    const id = setTimeout(() => {
+      play(prev => applySolitaireAction(prev, move));
+      setSolutionStep(step => step + 1);
+    }, SOLUTION_STEP_MS);
+
+    return () => clearTimeout(id);
+  }, [solution, solutionStep]);
+
+  // Moves go on the undo stack; settings only change the present state
+  const play = (update: (prev: SolitaireState) => SolitaireState) => {
+    setHistory(h => pushHistory(h, update(h.present)));
   };
 
-  const handleDrawFromStock = () => {
-    setState(prev => {
-      if (prev.won) return prev;
-
-      let changed = false;
-      const next: SolitaireState = {
-        stock: [...prev.stock],
-        waste: [...prev.waste],
-        tableau: prev.tableau.map(p => [...p]),
-        foundations: cloneFoundations(prev.foundations),
-        moves: prev.moves,
-        startedAt: prev.startedAt,
-        won: prev.won
-      };
-
-      if (next.stock.length > 0) {
-        const count = Math.min(drawMode, next.stock.length);
-        for (let i = 0; i < count; i++) {
-          const card = next.stock.pop();
-          if (!card) break;
-          const faceUpCard: SolitaireCard = { ...card, faceUp: true };
-          next.waste.push(faceUpCard);
-        }
-        changed = true;
-      } else if (next.waste.length > 0) {
-        const recycled = [...next.waste]
-          .reverse()
-          .map(c => ({ ...c, faceUp: false }));
-        next.stock = recycled;
-        next.waste = [];
-        changed = true;
+  const newGame = (next: SolitaireState) => {
+    setHistory(createHistory(next, HISTORY_LIMIT));
+  };
+
+  const stopSolution = useCallback(() => {
+    setSolution(null);
+    setSolverMessage(null);
+  }, []);
+
+  const deal = (config: SolitaireConfig) => {
+    stopSolution();
+
+    if (winnableOnly) {
+      const dealt = dealWinnableSolitaire(config, {
+        maxNodes: DEAL_MAX_NODES,
+        maxTotalNodes: SOLVER_MAX_NODES
+      });
+      newGame(dealt.state);
+      if (dealt.solution.status !== "solved") {
+        setSolverMessage("Couldn't prove a deal winnable, dealt one anyway");
       }
+    } else {
+      newGame(initSolitaire(config));
+    }
+
+    setStartedAt(null);
+    setElapsedMs(0);
+  };
 
-      if (!changed) return prev;
+  const score = solitaireScore(state, elapsedMs);
 
-      const now = Date.now();
-      if (next.startedAt == null) next.startedAt = now;
-      next.moves = prev.moves + 1;
-      next.won = isWin(next);
-      return next;
+  // Cumulative Vegas carries this game's result into the next
+  const handleReset = () => {
+    deal({
+      drawCount: state.drawCount,
+      undoRule: state.undoRule,
+      scoring: state.scoring,
+      passRule,
+      vegasBank: state.scoring === "vegas-cumulative" ? score : 0
     });
   };
 
-  const moveCards = (source: DragSource, target: DropTarget) => {
-    setState(prev => {
-      if (prev.won) return prev;
-
-      const next: SolitaireState = {
-        stock: [...prev.stock],
-        waste: [...prev.waste],
-        tableau: prev.tableau.map(pile => [...pile]),
-        foundations: cloneFoundations(prev.foundations),
-        moves: prev.moves,
-        startedAt: prev.startedAt,
-        won: prev.won
-      };
-
-      let movingCards: SolitaireCard[] = [];
-
-      // Extract from source
-      if (source.from === "waste") {
-        const waste = next.waste;
-        const idx = waste.findIndex(c => c.id === source.cardId);
-        if (idx === -1 || idx !== waste.length - 1) {
-          // only top card allowed
-          return prev;
-        }
-        const [card] = waste.splice(idx, 1);
-        movingCards = [card];
-      } else {
-        const pile = next.tableau[source.pileIndex];
-        if (!pile) return prev;
-        const idx = pile.findIndex(c => c.id === source.cardId);
-        if (idx === -1) return prev;
-        if (!pile[idx].faceUp) return prev;
-
-        movingCards = pile.slice(idx);
-        next.tableau[source.pileIndex] = pile.slice(0, idx);
-
-        // Flip new top if needed
-        const remaining = next.tableau[source.pileIndex];
-        if (remaining.length > 0) {
-          const topIdx = remaining.length - 1;
-          const topCard = remaining[topIdx];
-          if (!topCard.faceUp) {
-            remaining[topIdx] = { ...topCard, faceUp: true };
-          }
-        }
-      }
+  // Points mean something else under another system, so switching deals
+  // afresh (and a cumulative bank starts from nothing)
+  const setScoring = (scoring: SolitaireScoring) => {
+    deal({
+      drawCount: state.drawCount,
+      undoRule: state.undoRule,
+      passRule,
+      scoring
+    });
+  };
 
-      if (movingCards.length === 0) return prev;
-      const firstCard = movingCards[0];
-
-      // Handle drop target
-      if (target.type === "foundation") {
-        // Single-card only
-        if (movingCards.length !== 1) return prev;
-        if (firstCard.suit !== target.suit) return prev;
-
-        const pile = next.foundations[target.suit];
-        if (!canMoveToFoundation(firstCard, pile)) return prev;
-
-        pile.push(firstCard);
-      } else {
-        const destPile = next.tableau[target.pileIndex];
-        if (!destPile) return prev;
-
-        const cardRank = getRankValue(firstCard.rank);
-        const cardRed = isRedSuit(firstCard.suit as Suit);
-
-        if (destPile.length === 0) {
-          // only King on empty
-          if (cardRank !== 13) return prev;
-        } else {
-          const top = destPile[destPile.length - 1];
-          const topRank = getRankValue(top.rank);
-          const topRed = isRedSuit(top.suit as Suit);
-          if (cardRed === topRed) return prev;
-          if (cardRank !== topRank - 1) return prev;
-        }
-
-        destPile.push(...movingCards);
-      }
+  const handleShowSolution = () => {
+    const result = solveSolitaire(state, { maxNodes: SOLVER_MAX_NODES });
+
+    switch (result.status) {
+      case "solved":
+        setSolution(result.moves);
+        setSolutionStep(0);
+        setSolverMessage(`Winning line: ${result.moves.length} moves`);
+        break;
+      case "unsolvable":
+        setSolverMessage("Solver found no win");
+        break;
+      case "gave-up":
+        setSolverMessage(
+          `No win found in ${SOLVER_MAX_NODES.toLocaleString()} positions`
+        );
+        break;
+    }
+  };
 
-      // Valid move
-      const now = Date.now();
-      if (next.startedAt == null) next.startedAt = now;
-      next.moves = prev.moves + 1;
-      next.won = isWin(next);
-      return next;
-    });
+  // Best move first, then the alternatives on each further press; any
+  // change to the game starts the list over
+  const handleHint = () => {
+    const ranked = rankSolitaireMoves(state);
+    const first = ranked[0];
+    if (!first) {
+      setSolverMessage("No moves left");
+      return;
+    }
+
+    const index = hint?.forState === state ? (hint.index + 1) % ranked.length : 0;
+    setHint({ forState: state, index, action: ranked[index] ?? first });
+  };
+
+  const handleAction = (action: SolitaireAction) => {
+    stopSolution();
+    play(prev => applySolitaireAction(prev, action));
+  };
+
+  // Nothing to take back once the game is won. Stable across renders, so
+  // the shortcut listener below is added once.
+  const handleUndo = useCallback(() => {
+    stopSolution();
+    setHistory(h => (h.present.won ? h : undoHistory(h, countUndo)));
+  }, [stopSolution]);
+
+  const handleRedo = useCallback(() => {
+    stopSolution();
+    setHistory(h => redoHistory(h, keepUndoCount));
+  }, [stopSolution]);
+
+  // Ctrl+Z undoes, Ctrl+Shift+Z redoes (Cmd on macOS)
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+      e.preventDefault();
+      if (e.shiftKey) handleRedo();
+      else handleUndo();
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  }, [handleUndo, handleRedo]);
+
+  const setUndoRule = (undoRule: SolitaireUndoRule) => {
+    setHistory(h => replacePresent(h, { ...h.present, undoRule }));
+  };
+
+  const handleDrawFromStock = () => handleAction({ type: "draw" });
+
+  const setDrawMode = (drawCount: SolitaireDrawCount) => {
+    stopSolution();
+    setHistory(h => replacePresent(h, { ...h.present, drawCount }));
+  };
+
+  const moveCards = (source: DragSource, target: DropTarget) => {
+    const action = dropAction(state, source, target);
+    if (action) handleAction(action);
   };
 
   const handleDragStartFromWaste = (cardId: string) =>
@@ -318,6 +384,13 @@ const SolitaireView: React.FC = () => {
       e.dataTransfer.effectAllowed = "move";
     };
 
+  const handleDragStartFromFoundation = (suit: Suit, cardId: string) =>
+    (e: React.DragEvent<HTMLDivElement>) => {
+      const payload: DragSource = { from: "foundation", suit, cardId };
+      e.dataTransfer.setData("text/plain", JSON.stringify(payload));
+      e.dataTransfer.effectAllowed = "move";
+    };
+
   const handleDropOnFoundation = (suit: Suit) =>
     (e: React.DragEvent<HTMLDivElement>) => {
       e.preventDefault();
@@ -349,77 +422,18 @@ const SolitaireView: React.FC = () => {
   };
 
   const handleAutoComplete = () => {
-    setState(prev => {
-      if (!canAutoComplete(prev) || prev.won) return prev;
-
-      let next: SolitaireState = {
-        stock: [...prev.stock],
-        waste: [...prev.waste],
-        tableau: prev.tableau.map(p => [...p]),
-        foundations: cloneFoundations(prev.foundations),
-        moves: prev.moves,
-        startedAt: prev.startedAt ?? Date.now(),
-        won: prev.won
-      };
-
-      let movesAdded = 0;
-
-      // Keep moving top visible cards to foundations while possible
-      while (true) {
-        let moved = false;
-
-        // 1. Try from waste
-        const wasteTop = next.waste[next.waste.length - 1];
-        if (wasteTop) {
-          const pile = next.foundations[wasteTop.suit];
-          if (canMoveToFoundation(wasteTop, pile)) {
-            next.waste.pop();
-            pile.push(wasteTop);
-            movesAdded++;
-            moved = true;
-          }
-        }
-
-        // 2. Try from tableau
-        if (!moved) {
-          for (let i = 0; i < next.tableau.length; i++) {
-            const pile = next.tableau[i];
-            if (pile.length === 0) continue;
-            const topCard = pile[pile.length - 1];
-            if (!topCard.faceUp) continue;
-
-            const f = next.foundations[topCard.suit];
-            if (canMoveToFoundation(topCard, f)) {
-              pile.pop();
-              f.push(topCard);
-              movesAdded++;
-              moved = true;
-
-              // Flip new top card if needed
-              if (pile.length > 0) {
-                const newTop = pile[pile.length - 1];
-                if (!newTop.faceUp) {
-                  pile[pile.length - 1] = { ...newTop, faceUp: true };
-                }
-              }
-
-              break; // restart search from beginning
-            }
-          }
-        }
-
-        if (!moved) break;
-      }
-
-      if (movesAdded === 0) return prev;
-      next.moves += movesAdded;
-      next.won = isWin(next);
-
-      return next;
-    });
+    stopSolution();
+    play(autoComplete);
   };
 
-  const autoCompleteAvailable = canAutoComplete(state) && !state.won;
+  const spots = hintSpots(state, hint?.forState === state ? hint.action : null);
+
+  const autoCompleteAvailable = canAutoComplete(state);
+  const undoAvailable = canUndo(history) && !state.won;
+  const redoAvailable = canRedo(history);
+  const drawAvailable = canDraw(state);
+  const drawMode = state.drawCount;
+  const passes = passLimit(state);
 
   const topWaste = state.waste[state.waste.length - 1] ?? null;
 
@@ -442,18 +456,19 @@ const SolitaireView: React.FC = () => {
         }}
       >
         <span style={{ color: "#a0aec0", fontSize: 14 }}>
-          Solitaire: click the stock to draw; drag cards between tableau and foundations.
+          Solitaire: click the stock to draw; drag cards between tableau and foundations (either way).
         </span>
 
         <button
           onClick={handleDrawFromStock}
+          disabled={!drawAvailable}
           style={{
             padding: "0.35rem 0.7rem",
             borderRadius: 6,
             border: "none",
-            background: "#4c51bf",
+            background: drawAvailable ? "#4c51bf" : "#2a2e5c",
             color: "#f7fafc",
-            cursor: "pointer",
+            cursor: drawAvailable ? "pointer" : "not-allowed",
             fontSize: 14
           }}
         >
@@ -491,6 +506,27 @@ const SolitaireView: React.FC = () => {
           </button>
         </div>
 
+        <select
+          value={passRule}
+          onChange={e => setPassRule(e.target.value as SolitairePassRule)}
+          style={{
+            padding: "0.3rem 0.4rem",
+            borderRadius: 4,
+            border: "1px solid #4a5568",
+            background: "#0b1020",
+            color: "#f5f5f5"
+          }}
+        >
+          {(Object.keys(PASS_RULE_LABELS) as SolitairePassRule[]).map(rule => (
+            <option key={rule} value={rule}>
+              {PASS_RULE_LABELS[rule]}
+            </option>
+          ))}
+        </select>
+        {passRule !== state.passRule && (
+          <span style={{ fontSize: 12, color: "#a0aec0" }}>from next deal</span>
+        )}
+
         <button
           onClick={handleAutoComplete}
           disabled={!autoCompleteAvailable}
@@ -507,6 +543,83 @@ const SolitaireView: React.FC = () => {
           Auto-complete
         </button>
 
+        <button
+          onClick={handleHint}
+          disabled={state.won}
+          style={{
+            padding: "0.35rem 0.7rem",
+            borderRadius: 6,
+            border: "1px solid #f6e05e",
+            background: "transparent",
+            color: "#f6e05e",
+            cursor: state.won ? "not-allowed" : "pointer",
+            fontSize: 14
+          }}
+        >
+          Hint
+        </button>
+
+        <div style={{ display: "flex", gap: "0.25rem" }}>
+          {([
+            ["Undo", handleUndo, undoAvailable, "Ctrl+Z"],
+            ["Redo", handleRedo, redoAvailable, "Ctrl+Shift+Z"]
+          ] as const).map(([label, onClick, enabled, keys]) => (
+            <button
+              key={label}
+              onClick={onClick}
+              disabled={!enabled}
+              title={keys}
+              style={{
+                padding: "0.3rem 0.6rem",
+                borderRadius: 6,
+                border: "none",
+                background: "#1a202c",
+                color: enabled ? "#e2e8f0" : "#4a5568",
+                cursor: enabled ? "pointer" : "not-allowed",
+                fontSize: 13
+              }}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+
+        <select
+          value={state.undoRule}
+          onChange={e => setUndoRule(e.target.value as SolitaireUndoRule)}
+          style={{
+            padding: "0.3rem 0.4rem",
+            borderRadius: 4,
+            border: "1px solid #4a5568",
+            background: "#0b1020",
+            color: "#f5f5f5"
+          }}
+        >
+          {(Object.keys(UNDO_RULE_LABELS) as SolitaireUndoRule[]).map(rule => (
+            <option key={rule} value={rule}>
+              {UNDO_RULE_LABELS[rule]}
+            </option>
+          ))}
+        </select>
+
+        <select
+          value={state.scoring}
+          onChange={e => setScoring(e.target.value as SolitaireScoring)}
+          style={{
+            padding: "0.3rem 0.4rem",
+            borderRadius: 4,
+            border: "1px solid #4a5568",
+            background: "#0b1020",
+            color: "#f5f5f5"
+          }}
+        >
+          {(Object.keys(SCORING_LABELS) as SolitaireScoring[]).map(scoring => (
+            <option key={scoring} value={scoring}>
+              {SCORING_LABELS[scoring]}
+            </option>
+          ))}
+        </select>
+
         <button
           onClick={handleReset}
           style={{
@@ -522,13 +635,63 @@ const SolitaireView: React.FC = () => {
           New Game
         </button>
 
+        <label
+          style={{
+            display: "flex",
+            alignItems: "center",
+            gap: "0.35rem",
+            fontSize: 13,
+            color: "#e2e8f0"
+          }}
+        >
+          <input
+            type="checkbox"
+            checked={winnableOnly}
+            onChange={e => setWinnableOnly(e.target.checked)}
+          />
+          Winnable deals only
+        </label>
+
+        <button
+          onClick={solution ? stopSolution : handleShowSolution}
+          disabled={state.won}
+          style={{
+            padding: "0.35rem 0.7rem",
+            borderRadius: 6,
+            border: "1px solid #4a5568",
+            background: "transparent",
+            color: "#e2e8f0",
+            cursor: state.won ? "not-allowed" : "pointer",
+            fontSize: 14
+          }}
+        >
+          {solution ? "Stop solution" : "Show me a solution"}
+        </button>
+
+        {solverMessage && (
+          <span style={{ fontSize: 13, color: "#a0aec0" }}>{solverMessage}</span>
+        )}
+
         <div style={{ marginLeft: "auto", display: "flex", gap: "1rem" }}>
           <span style={{ fontSize: 14, color: "#e2e8f0" }}>
             Moves: <strong>{state.moves}</strong>
           </span>
+          <span style={{ fontSize: 14, color: "#e2e8f0" }}>
+            {state.scoring === "vegas-cumulative" ? "Bank" : "Score"}:{" "}
+            <strong>{formatScore(state.scoring, score)}</strong>
+          </span>
+          {state.undoRule !== "free" && (
+            <span style={{ fontSize: 14, color: "#e2e8f0" }}>
+              Undos: <strong>{state.undos}</strong>
+              {state.undoRule === "penalize" && ` (−${undoPenalty(state)})`}
+            </span>
+          )}
           <span style={{ fontSize: 14, color: "#e2e8f0" }}>
             Time: <strong>{formatTime(elapsedMs)}</strong>
           </span>
+          <span style={{ fontSize: 12, color: "#718096", alignSelf: "center" }}>
+            Seed {state.seed}
+          </span>
           {state.won && (
             <span style={{ fontSize: 14, color: "#68d391" }}>
               🎉 You win!
@@ -560,9 +723,18 @@ const SolitaireView: React.FC = () => {
             <div style={{ fontWeight: 600 }}>Stock</div>
             <div style={{ fontSize: 12, color: "#a0aec0" }}>
               {state.stock.length} card{state.stock.length !== 1 ? "s" : ""}
+              {Number.isFinite(passes) && ` · pass ${state.pass} of ${passes}`}
             </div>
           </div>
-          <div onClick={handleDrawFromStock} style={{ cursor: "pointer" }}>
+          <div
+            onClick={handleDrawFromStock}
+            style={{
+              cursor: drawAvailable ? "pointer" : "not-allowed",
+              borderRadius: 10,
+              outline: spots.stock ? "3px solid #f6e05e" : "none",
+              outlineOffset: 2
+            }}
+          >
             {state.stock.length > 0 ? (
               <CardView card={stockBackCard} faceDown />
             ) : (
@@ -579,7 +751,7 @@ const SolitaireView: React.FC = () => {
                   color: "#4a5568"
                 }}
               >
-                Empty
+                {state.waste.length > 0 && !drawAvailable ? "No passes left" : "Empty"}
               </div>
             )}
           </div>
@@ -623,6 +795,7 @@ const SolitaireView: React.FC = () => {
                 card={topWaste}
                 draggable={true}
                 onDragStart={handleDragStartFromWaste(topWaste.id)}
+                highlighted={spots.cardId === topWaste.id}
               />
             )}
           </div>
@@ -637,7 +810,7 @@ const SolitaireView: React.FC = () => {
             gap: "0.75rem"
           }}
         >
-          {foundationsOrder.map(suit => {
+          {FOUNDATION_SUITS.map(suit => {
             const pile = state.foundations[suit];
             const topCard = pile[pile.length - 1];
             return (
@@ -648,7 +821,7 @@ const SolitaireView: React.FC = () => {
                 style={{
                   borderRadius: 8,
                   padding: "0.5rem",
-                  border: "1px dashed #4a5568",
+                  border: spots.foundation === suit ? HINT_BORDER : "1px dashed #4a5568",
                   background: "#111827",
                   minHeight: 120
                 }}
@@ -661,7 +834,12 @@ const SolitaireView: React.FC = () => {
                 </div>
                 <div>
                   {topCard ? (
-                    <CardView card={topCard} draggable={false} />
+                    <CardView
+                      card={topCard}
+                      draggable={true}
+                      onDragStart={handleDragStartFromFoundation(suit, topCard.id)}
+                      highlighted={spots.cardId === topCard.id}
+                    />
                   ) : (
                     <div
                       style={{
@@ -703,7 +881,7 @@ const SolitaireView: React.FC = () => {
             style={{
               borderRadius: 8,
               padding: "0.5rem",
-              border: "1px dashed #4a5568",
+              border: spots.tableau === pileIndex ? HINT_BORDER : "1px dashed #4a5568",
               background: "#111827",
               minHeight: 160,
               position: "relative"
@@ -761,6 +939,7 @@ const SolitaireView: React.FC = () => {
                           pileIndex,
                           card.id
                         )}
+                        highlighted={spots.cardId === card.id}
                       />
                     ) : (
                       // <div
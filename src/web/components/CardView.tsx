@@ -10,6 +10,7 @@ interface CardViewProps {
   onDragStart?: (e: React.DragEvent<HTMLDivElement>) => void;
   faceDown?: boolean;              // 👈 NEW
   backImageSrc?: string;           // 👈 optional override
+  highlighted?: boolean;           // e.g. the card a hint points at
 }
 
 
@@ -135,7 +136,8 @@ export const CardView: React.FC<CardViewProps> = ({
   draggable,
   onDragStart,
   faceDown,
-  backImageSrc = "/cards/card_back_black.png"
+  backImageSrc = "/cards/card_back_black.png",
+  highlighted = false
 }) => {
   const [expanded, setExpanded] = useState(false);
 
@@ -155,11 +157,12 @@ export const CardView: React.FC<CardViewProps> = ({
   const closeExpanded = () => setExpanded(false);
 
   const cardClasses = `card-view ${colorClass}`;
+  const highlightClass = highlighted ? " card-view--highlighted" : "";
 
   if (faceDown) {
     return (
       <div
-        className={`${cardClasses} card-view--back`}
+        className={`${cardClasses} card-view--back${highlightClass}`}
         draggable={draggable}
         onDragStart={onDragStart}
       >
@@ -208,7 +211,7 @@ export const CardView: React.FC<CardViewProps> = ({
     <>
       {/* Small card */}
       <div
-        className={cardClasses}
+        className={cardClasses + highlightClass}
         onClick={handleCardClick}
         draggable={draggable}
         onDragStart={onDragStart} // 👈 new